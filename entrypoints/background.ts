@@ -1,23 +1,93 @@
 // Background service worker for continuous Keka monitoring and notifications
 import { browser } from "wxt/browser";
-import type { NotificationStates } from "../utils/types";
-import { fetchAttendanceSummary, fetchHolidays, fetchLeaveSummary } from "../utils/api";
-import { calculateMetrics, processMonthlyStats } from "../utils/calculations";
-import { format } from "date-fns";
+import type { AttendanceData, BackgroundStatus, LeaveTimeInfo, Metrics, NotificationAction, NotificationRule, PollOutcome, Profile, ProfileStorage, ResponseFormatIssue, RuleContext } from "../utils/types";
+import { fetchAttendanceSummary, fetchHolidays, fetchLeaveSummary, getKekaHomeUrl, onConnectivityChange } from "../utils/api";
+import { getApiError, isApiErrorKind } from "../utils/errors";
+import { clearApiCache, getCachedHolidays, getCachedLeaveSummary } from "../utils/cache";
+import { CHECK_METRICS_ALARM, getNextPollDelayMinutes } from "../utils/scheduler";
+import { clearActionBadge, getBadgeMode, updateActionBadge } from "../utils/badge";
+import { archiveAttendanceDays, archiveSnapshot, hasAttendanceHistory } from "../utils/archive";
+import { parseISO, startOfMonth, subMonths } from "date-fns";
+import { calculateMetrics, processMonthlyStats, getCurrentShiftDay, findAttendanceDay, formatMinutes } from "../utils/calculations";
+import { DEFAULT_WORK_POLICY, getWorkPolicy, resolveDayTarget } from "../utils/policy";
+import { getNotificationRules, getRuleStep, renderRuleTemplate } from "../utils/rules";
+import { getDayKey, getHalfDayKey } from "../utils/period";
+import { isSettingsSyncEnabled, reconcileSettingsSync, recordSettingChanges } from "../utils/settings";
+import { applyManagedSettings } from "../utils/managed";
+import {
+  ACTIVE_PROFILE_STORAGE_KEY,
+  DEFAULT_PROFILE_ID,
+  PROFILES_STORAGE_KEY,
+  getActiveProfileId,
+  getProfileStorage,
+  getProfiles,
+} from "../utils/profiles";
+import { decodeTokenExpiry, getTokenExpiryWarningMinutes, getTokenMinutesLeft } from "../utils/token";
+import { handleMessages } from "../utils/messages";
+import { RESPONSE_FORMAT_ISSUE_STORAGE_KEY } from "../utils/validation";
+
+const NOTIFICATION_ACTION_LABELS: Record<NotificationAction, string> = {
+  snooze: "Snooze 10 min",
+  "open-keka": "Open Keka",
+  "half-day": "Mark as half day",
+};
+
+const SNOOZE_MINUTES = 10;
+const SNOOZE_ALARM_PREFIX = "SNOOZE_NOTIFICATION:";
+
+// The profile a check, notification or action belongs to
+interface ProfileScope {
+  profile: Profile;
+  storage: ProfileStorage;
+  // Prepended to notification titles once there is more than one profile
+  titlePrefix: string;
+}
+
+function toProfileScope(profile: Profile, profileCount: number): ProfileScope {
+  return {
+    profile,
+    storage: getProfileStorage(profile.id),
+    titlePrefix: profileCount > 1 ? `[${profile.name}] ` : "",
+  };
+}
+
+async function getProfileScopes(): Promise<ProfileScope[]> {
+  const profiles = await getProfiles();
+  return profiles.map((profile) => toProfileScope(profile, profiles.length));
+}
 
-// Get current date/week keys
-function getCurrentDay(): string {
-  return new Date().toISOString().split("T")[0];
+async function getProfileScope(profileId: string): Promise<ProfileScope> {
+  const scopes = await getProfileScopes();
+  return scopes.find((scope) => scope.profile.id === profileId) ?? scopes[0];
 }
 
-function getCurrentWeek(): string {
-  return `week_${new Date().getFullYear()}-${Math.floor(new Date().getDate() / 7)}`;
+// The id carries everything the click handlers need, so it survives service worker restarts
+function buildNotificationId(source: string, day: string, actions: NotificationAction[], profileId: string): string {
+  return ["kivo", source, day, actions.join(","), profileId].join("|");
 }
 
-// Optimized notification helper
-async function showNotification(title: string, message: string, requireInteraction = false) {
+function parseNotificationId(notificationId: string) {
+  const [prefix, source, day, actions, profileId] = notificationId.split("|");
+  if (prefix !== "kivo" || !source || !day) return null;
+  return {
+    source,
+    day,
+    actions: (actions ? actions.split(",") : []) as NotificationAction[],
+    // Notifications shown before profiles existed belong to the default one
+    profileId: profileId || DEFAULT_PROFILE_ID,
+  };
+}
+
+// Optimized notification helper. Each profile turns its own notifications on or off.
+async function showNotification(
+  storage: ProfileStorage,
+  title: string,
+  message: string,
+  requireInteraction = false,
+  notificationId?: string
+) {
   try {
-    const { notifications_enabled } = await browser.storage.local.get("notifications_enabled");
+    const { notifications_enabled } = await storage.get("notifications_enabled");
     if (notifications_enabled !== true) {
       return;
     }
@@ -26,120 +96,220 @@ async function showNotification(title: string, message: string, requireInteracti
       console.error("Notifications API not available");
       return;
     }
-    await browser.notifications.create({
-      type: "basic",
+    const actions = notificationId ? parseNotificationId(notificationId)?.actions ?? [] : [];
+    const options = {
+      type: "basic" as const,
       iconUrl: "icon/128.png",
       title,
       message,
       requireInteraction,
       silent: false,
-    });
+      ...(actions.length > 0 && {
+        buttons: actions.map((action) => ({ title: NOTIFICATION_ACTION_LABELS[action] })),
+      }),
+    };
+    if (notificationId) {
+      await browser.notifications.create(notificationId, options);
+    } else {
+      await browser.notifications.create(options);
+    }
   } catch (error) {
     console.error("Error showing notification:", error);
   }
 }
 
-async function setInStorage(key: string, value: any): Promise<void> {
+async function setInStorage(storage: ProfileStorage, key: string, value: any): Promise<void> {
   try {
-    await browser.storage.local.set({ [key]: value });
+    await storage.set({ [key]: value });
   } catch (error) {
     console.error("Error writing to storage:", error);
   }
 }
 
-async function getNotificationStates(): Promise<NotificationStates> {
-  const currentDay = getCurrentDay();
-  const currentWeek = getCurrentWeek();
-
-  /* 
-   * Storage Keys Mapping:
-   * Old keys are reused where possible, but new logic uses them differently or uses new keys.
-   * To prevent issues with legacy data, we interpret them safely.
-   */
-  const keys = [
-    `completion_notified_${currentDay}`,
-    `overtime_notified_${currentDay}`,
-    `clocked_in_too_long_notified_${currentDay}`,
-    `leave_time_approaching_notified_${currentDay}`,
-    `monthly_progress_notified_${currentWeek}`,
-    `weekly_summary_notified_${currentWeek}`,
-    `last_overtime_minutes_${currentDay}`,
-    `lunch_break_notified_${currentDay}`,
-    `tea_break_notified_${currentDay}`,
-    `average_target_notified_${currentDay}`,
-    `token_expired_notified_${currentDay}`
-  ];
+// The session expiry notice is shown once per day; everything else goes through the rules
+function getTokenExpiredNotifiedKey(currentDay: string): string {
+  return `token_expired_notified_${currentDay}`;
+}
 
-  const result = await browser.storage.local.get(keys);
+// Rules remember the last step they fired on per shift day (1 for once-a-day rules)
+function getRuleNotifiedKey(ruleId: string, currentDay: string): string {
+  return `rule_notified_${ruleId}_${currentDay}`;
+}
 
-  return {
-    completionNotifiedToday: Boolean(result[keys[0]]),
-    overtimeNotifiedToday: Boolean(result[keys[1]]),
-    clockedInTooLongNotifiedToday: Boolean(result[keys[2]]),
-    leaveTimeApproachingNotifiedToday: Boolean(result[keys[3]]),
-    monthlyProgressNotifiedThisWeek: Boolean(result[keys[4]]),
-    weeklySummaryNotified: Boolean(result[keys[5]]),
-    lastOvertimeNotifiedMinutes: typeof result[keys[6]] === 'number' ? (result[keys[6]] as number) : 0,
-    lunchBreakNotifiedToday: Boolean(result[keys[7]]),
-    teaBreakNotifiedToday: Boolean(result[keys[8]]),
-    averageTargetNotifiedToday: Boolean(result[keys[9]]),
-    tokenExpiredNotifiedToday: Boolean(result[keys[10]]),
-  };
+// Per-day flags the hardcoded checks wrote before the default rules replaced them
+const LEGACY_NOTIFIED_KEY_PREFIXES: Record<string, string> = {
+  completion: "completion_notified_",
+  "average-target": "average_target_notified_",
+  overtime: "overtime_notified_",
+  "long-session": "clocked_in_too_long_notified_",
+  "lunch-break": "lunch_break_notified_",
+  "tea-break": "tea_break_notified_",
+  "leave-approaching": "leave_time_approaching_notified_",
+};
+
+// Step a default rule had effectively reached under the old flags, so the upgrade day doesn't repeat them
+function getLegacyRuleStep(rule: NotificationRule, legacy: Record<string, unknown>, currentDay: string): number {
+  const prefix = LEGACY_NOTIFIED_KEY_PREFIXES[rule.id];
+  if (!prefix || !legacy[`${prefix}${currentDay}`]) return 0;
+
+  // Overtime used to remember the overtime minutes it last fired at instead of a step
+  const lastOvertime = legacy[`last_overtime_minutes_${currentDay}`];
+  if (rule.id === "overtime" && typeof lastOvertime === "number" && rule.repeatEveryMinutes) {
+    return Math.max(1, Math.floor((lastOvertime - (rule.min ?? 0)) / rule.repeatEveryMinutes) + 1);
+  }
+  return 1;
 }
 
-async function updateNotificationState(stateKey: keyof NotificationStates, value: any): Promise<void> {
-  const currentDay = getCurrentDay();
-  const currentWeek = getCurrentWeek();
-
-  const keyMap: Record<keyof NotificationStates, string> = {
-    completionNotifiedToday: `completion_notified_${currentDay}`,
-    overtimeNotifiedToday: `overtime_notified_${currentDay}`,
-    clockedInTooLongNotifiedToday: `clocked_in_too_long_notified_${currentDay}`,
-    leaveTimeApproachingNotifiedToday: `leave_time_approaching_notified_${currentDay}`,
-    monthlyProgressNotifiedThisWeek: `monthly_progress_notified_${currentWeek}`,
-    weeklySummaryNotified: `weekly_summary_notified_${currentWeek}`,
-    lastOvertimeNotifiedMinutes: `last_overtime_minutes_${currentDay}`,
-    lunchBreakNotifiedToday: `lunch_break_notified_${currentDay}`,
-    teaBreakNotifiedToday: `tea_break_notified_${currentDay}`,
-    averageTargetNotifiedToday: `average_target_notified_${currentDay}`,
-    tokenExpiredNotifiedToday: `token_expired_notified_${currentDay}`,
-  };
+async function getRuleNotifiedSteps(storage: ProfileStorage, rules: NotificationRule[], currentDay: string): Promise<Record<string, number>> {
+  const keys = rules.map((rule) => getRuleNotifiedKey(rule.id, currentDay));
+  const result = await storage.get(keys);
+
+  const unseeded = rules.filter((rule, index) => result[keys[index]] === undefined && LEGACY_NOTIFIED_KEY_PREFIXES[rule.id]);
+  const legacy = unseeded.length > 0
+    ? await storage.get([
+      ...unseeded.map((rule) => `${LEGACY_NOTIFIED_KEY_PREFIXES[rule.id]}${currentDay}`),
+      `last_overtime_minutes_${currentDay}`,
+    ])
+    : {};
+
+  const steps: Record<string, number> = {};
+  for (const [index, rule] of rules.entries()) {
+    const value = result[keys[index]];
+    if (typeof value === 'number') {
+      steps[rule.id] = value;
+      continue;
+    }
+    steps[rule.id] = getLegacyRuleStep(rule, legacy, currentDay);
+    // Seeded once; from then on the rule's own key is the only state
+    if (steps[rule.id] > 0) {
+      await setInStorage(storage, keys[index], steps[rule.id]);
+    }
+  }
+  return steps;
+}
+
+function getRuleContentKey(ruleId: string, currentDay: string): string {
+  return `rule_content_${ruleId}_${currentDay}`;
+}
 
-  await setInStorage(keyMap[stateKey], value);
+function getSnoozedKey(ruleId: string, currentDay: string): string {
+  return `snoozed_${ruleId}_${currentDay}`;
+}
+
+async function getSnoozedUntil(storage: ProfileStorage, rules: NotificationRule[], currentDay: string): Promise<Record<string, number>> {
+  const keys = rules.map((rule) => getSnoozedKey(rule.id, currentDay));
+  const result = await storage.get(keys);
+
+  const snoozed: Record<string, number> = {};
+  rules.forEach((rule, index) => {
+    const value = result[keys[index]];
+    if (typeof value === 'number') snoozed[rule.id] = value;
+  });
+  return snoozed;
+}
+
+async function openKekaTab(profileId: string) {
+  try {
+    const url = await getKekaHomeUrl(profileId);
+    await browser.tabs.create({ url });
+  } catch (error) {
+    console.error("Error opening Keka:", error);
+  }
+}
+
+async function snoozeNotification(scope: ProfileScope, ruleId: string, day: string) {
+  await setInStorage(scope.storage, getSnoozedKey(ruleId, day), Date.now() + SNOOZE_MINUTES * 60 * 1000);
+  await browser.alarms.create(`${SNOOZE_ALARM_PREFIX}${ruleId}|${day}|${scope.profile.id}`, { delayInMinutes: SNOOZE_MINUTES });
+}
+
+// Re-shows a snoozed rule notification with the text it originally had
+async function showSnoozedNotification(alarmName: string) {
+  const [ruleId, day, profileId] = alarmName.slice(SNOOZE_ALARM_PREFIX.length).split("|");
+  if (!ruleId || !day) return;
+
+  const { storage, profile } = await getProfileScope(profileId || DEFAULT_PROFILE_ID);
+  const contentKey = getRuleContentKey(ruleId, day);
+  const { [contentKey]: content } = await storage.get(contentKey);
+  await storage.remove(getSnoozedKey(ruleId, day));
+  if (!content) return;
+
+  // The stored title already carries the profile prefix
+  const { title, message } = content as { title: string; message: string };
+  const halfDayKey = getHalfDayKey(day);
+  const { [halfDayKey]: halfDayValue } = await storage.get(halfDayKey);
+  await showNotification(
+    storage,
+    title,
+    message,
+    false,
+    buildNotificationId(ruleId, day, ["snooze", halfDayValue === true ? "open-keka" : "half-day"], profile.id)
+  );
+}
+
+async function handleNotificationAction(notificationId: string, action: NotificationAction | null) {
+  const parsed = parseNotificationId(notificationId);
+  if (!parsed) return;
+
+  await browser.notifications.clear(notificationId);
+  const scope = await getProfileScope(parsed.profileId);
+
+  switch (action) {
+    case "snooze":
+      await snoozeNotification(scope, parsed.source, parsed.day);
+      break;
+    case "half-day":
+      // Same override the popup's half day toggle writes
+      await setInStorage(scope.storage, getHalfDayKey(parsed.day), true);
+      await runScheduledCheck();
+      break;
+    case "open-keka":
+    default:
+      // Clicking the notification body also opens that profile's Keka
+      await openKekaTab(scope.profile.id);
+      break;
+  }
+}
+
+// Reads the token Keka's web app keeps in localStorage from one of the profile's open tabs
+async function findTokenInTabs(storage: ProfileStorage): Promise<string | null> {
+  const { keka_domain } = await storage.get("keka_domain");
+  if (!keka_domain) return null;
+
+  const domain = keka_domain as string;
+  const hostname = domain.replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+  const kekaTabs = await browser.tabs.query({
+    url: [
+      `*://${hostname}/*`,
+      `*://*.${hostname}/*`
+    ]
+  });
+  const activeTab = kekaTabs.sort((a, b) => (b.active ? 1 : 0) - (a.active ? 1 : 0))[0];
+  if (!activeTab?.id) return null;
+
+  const result = await browser.scripting.executeScript({
+    target: { tabId: activeTab.id },
+    func: () => localStorage.getItem("access_token")
+  });
+  return result[0]?.result ?? null;
 }
 
 // Helper to handle token expiration
-async function handleTokenExpiration(accessToken: string) {
+async function handleTokenExpiration(scope: ProfileScope, accessToken: string, isActive: boolean) {
+  const { storage } = scope;
   try {
     // 1. Try to find a fresh token in opened tabs
-    const { keka_domain } = await browser.storage.local.get("keka_domain");
+    const { keka_domain } = await storage.get("keka_domain");
 
     if (!keka_domain) return;
 
-    const domain = keka_domain as string;
-    const hostname = domain.replace(/^https?:\/\//, '').replace(/\/$/, '');
-
-    const kekaTabs = await browser.tabs.query({
-      url: [
-        `*://${hostname}/*`,
-        `*://*.${hostname}/*`
-      ]
-    });
-    if (kekaTabs.length > 0) {
-      const activeTab = kekaTabs.sort((a, b) => (b.active ? 1 : 0) - (a.active ? 1 : 0))[0];
-      if (activeTab.id) {
-        const result = await browser.scripting.executeScript({
-          target: { tabId: activeTab.id },
-          func: () => localStorage.getItem("access_token")
-        });
-
-        const freshToken = result[0]?.result;
-        if (freshToken && freshToken !== accessToken) {
-          await browser.storage.local.set({ access_token: freshToken });
-          console.log("Automatically refreshed expired token from tab.");
-          return; // Token refreshed, next tick will pick it up
-        }
-      }
+    const freshToken = await findTokenInTabs(storage);
+    const freshExpiry = decodeTokenExpiry(freshToken);
+    // A tab that is itself logged out still holds the old, expired token
+    if (freshToken && freshToken !== accessToken && (freshExpiry === null || freshExpiry > Date.now())) {
+      await storage.set({ access_token: freshToken });
+      console.log("Automatically refreshed expired token from tab.");
+      return; // Token refreshed, next tick will pick it up
     }
 
     // 2. If no tab/token found, notify user ONCE per day (only if token is actually missing or invalid)
@@ -147,17 +317,24 @@ async function handleTokenExpiration(accessToken: string) {
     // If the token is invalid/expired and we couldn't refresh it from a tab, 
     // we must clear it so the UI prompts the user to log in again.
     if (accessToken) {
-      await browser.storage.local.remove("access_token");
+      await storage.remove("access_token");
+    }
+    // The badge belongs to the profile shown in the popup
+    if (isActive) {
+      await clearActionBadge("Kivo: open Keka to resume tracking");
     }
 
-    const { tokenExpiredNotifiedToday } = await getNotificationStates();
-    if (!tokenExpiredNotifiedToday) {
+    const notifiedKey = getTokenExpiredNotifiedKey(getDayKey());
+    const { [notifiedKey]: notifiedToday } = await storage.get(notifiedKey);
+    if (!notifiedToday) {
       await showNotification(
-        "Session Expired ⚠️",
+        storage,
+        `${scope.titlePrefix}Session Expired ⚠️`,
         "Please open Keka to refresh your daily session and resume tracking.",
-        true // require interaction so they see it
+        true, // require interaction so they see it
+        buildNotificationId("token-expired", getDayKey(), ["open-keka"], scope.profile.id)
       );
-      await updateNotificationState("tokenExpiredNotifiedToday", true);
+      await setInStorage(storage, notifiedKey, true);
     }
 
   } catch (e) {
@@ -165,48 +342,126 @@ async function handleTokenExpiration(accessToken: string) {
   }
 }
 
-// Main notification logic (optimized)
-async function runNotificationLogic() {
+// Tokens pushed by the content script as soon as Keka stores one.
+// The tab's host decides which profile(s) it belongs to.
+async function handleCapturedToken(token: string, tabUrl: string | undefined) {
+  if (!tabUrl) return;
+  const expiresAt = decodeTokenExpiry(token);
+  if (expiresAt !== null && expiresAt <= Date.now()) return;
+
+  try {
+    const { hostname } = new URL(tabUrl);
+    let updated = false;
+    for (const { storage, profile } of await getProfileScopes()) {
+      const { keka_domain, access_token } = await storage.get(["keka_domain", "access_token"]);
+      if (!keka_domain || access_token === token) continue;
+
+      const domain = (keka_domain as string).replace(/^https?:\/\//, '').replace(/\/$/, '');
+      if (hostname !== domain && !hostname.endsWith(`.${domain}`)) continue;
+
+      await storage.set({ access_token: token });
+      // The session is back, so the expiry notice no longer applies
+      await browser.notifications.clear(buildNotificationId("token-expired", getDayKey(), ["open-keka"], profile.id));
+      updated = true;
+    }
+    if (updated) {
+      await runScheduledCheck();
+    }
+  } catch (error) {
+    console.error("Error storing captured token:", error);
+  }
+}
+
+// Acts on the token's `exp` claim before Keka starts answering 401.
+// Returns false when the token has already lapsed and couldn't be replaced.
+async function checkTokenExpiry(scope: ProfileScope, accessToken: string, isActive: boolean): Promise<boolean> {
+  const { storage } = scope;
+  const expiresAt = decodeTokenExpiry(accessToken);
+  // Not a JWT we can read; the 401 handling still covers it
+  if (expiresAt === null) return true;
+
+  if (expiresAt <= Date.now()) {
+    await handleTokenExpiration(scope, accessToken, isActive);
+    return false;
+  }
+
+  const warningMinutes = await getTokenExpiryWarningMinutes(scope.profile.id);
+  const minutesLeft = getTokenMinutesLeft(expiresAt);
+  if (warningMinutes === 0 || minutesLeft > warningMinutes) return true;
+
+  // Keka renews the token in its own tabs, so a newer one may already be there
+  try {
+    const freshToken = await findTokenInTabs(storage);
+    if (freshToken && freshToken !== accessToken && (decodeTokenExpiry(freshToken) ?? 0) > expiresAt) {
+      await storage.set({ access_token: freshToken });
+      return true;
+    }
+  } catch (error) {
+    console.error("Error reading token from Keka tab:", error);
+  }
+
+  // Warn once per token
+  const { token_expiry_warned } = await storage.get("token_expiry_warned");
+  if (token_expiry_warned !== expiresAt) {
+    await showNotification(
+      storage,
+      `${scope.titlePrefix}Session Expiring Soon ⏳`,
+      `Your Keka session ends in ${formatMinutes(minutesLeft)}. Open Keka to renew it and keep tracking.`,
+      true,
+      buildNotificationId("token-expiring", getDayKey(), ["open-keka"], scope.profile.id)
+    );
+    await setInStorage(storage, "token_expiry_warned", expiresAt);
+  }
+  return true;
+}
+
+// Main notification logic (optimized). The outcome drives how soon the next check runs.
+async function runNotificationLogic(scope: ProfileScope, isActive: boolean): Promise<PollOutcome> {
+  const { storage, profile } = scope;
   try {
-    const currentDay = getCurrentDay();
-    const storageKeys = ['access_token', `halfDay_${currentDay}`, 'attendance_data'];
-    const storageData = await browser.storage.local.get(storageKeys);
+    const storageKeys = ['access_token', 'attendance_data', 'current_shift_day'];
+    const storageData = await storage.get(storageKeys);
 
     const accessToken = storageData.access_token as string;
 
     // If no access token at all, maybe try to find one? 
     if (!accessToken) {
-      await handleTokenExpiration(""); // pass empty string to trigger search
-      return;
+      await handleTokenExpiration(scope, "", isActive); // pass empty string to trigger search
+      return "signed-out";
+    }
+    if (!(await checkTokenExpiry(scope, accessToken, isActive))) {
+      return "signed-out";
     }
 
-    const isHalfDay = !!storageData[`halfDay_${currentDay}`];
+    const workPolicy = await getWorkPolicy(profile.id);
     const storedAttendanceData = storageData.attendance_data;
 
-    // Fetch fresh data
-    // optimization: maybe we don't need holidays and leave EVERY minute, but for correctness of average calcs we fetch them.
-    // In a real app we might cache these for the day.
+    // Attendance is always fetched fresh; holidays and leave come from the shared TTL cache
     let attendanceData, holidaysData;
     try {
       [attendanceData, holidaysData] = await Promise.all([
-        fetchAttendanceSummary(accessToken),
-        fetchHolidays(accessToken)
+        fetchAttendanceSummary(accessToken, undefined, profile.id),
+        getCachedHolidays(accessToken, getDayKey(), profile.id)
       ]);
     } catch (error) {
-      // Whether specific 'Unauthorized' or generic failure, handle as potential expiration
-      // and suppress error logging to keep extension logs clean.
-      if (error instanceof Error && error.message === 'Unauthorized') {
-        await handleTokenExpiration(accessToken);
+      // Only an actual 401/403 means the session is gone; logging is suppressed to keep extension logs clean
+      switch (getApiError(error)?.kind) {
+        case "unauthorized":
+          await handleTokenExpiration(scope, accessToken, isActive);
+          return "signed-out";
+        case "offline":
+          // Not a failure of Keka, so it doesn't count towards the backoff
+          return "offline";
+        default:
+          // Server errors, rate limits and malformed responses back off
+          return "error";
       }
-      return;
     }
 
     // Fetch leave summary for today to check if on leave (needed for monthly stats mostly)
     let leaveData = null;
     try {
-      const now = new Date();
-      const currentDateStr = format(now, "yyyy-MM-dd");
-      leaveData = await fetchLeaveSummary(accessToken, currentDateStr);
+      leaveData = await getCachedLeaveSummary(accessToken, getDayKey(), profile.id);
     } catch (e) {
       // Silently ignore leave data fetch failures
       /*
@@ -218,205 +473,356 @@ async function runNotificationLogic() {
 
     if (!attendanceData) {
       // console.log('Failed to fetch attendance data - possibly expired token');
-      await handleTokenExpiration(accessToken);
-      return;
+      await handleTokenExpiration(scope, accessToken, isActive);
+      return "signed-out";
     }
 
+    // Shift day the current (or most recent) session belongs to; equals today's date for day shifts
+    const shiftDay = getCurrentShiftDay(attendanceData, workPolicy);
+    const halfDayKey = getHalfDayKey(shiftDay);
+    const { [halfDayKey]: halfDayValue } = await storage.get(halfDayKey);
+    // The stored flag is a manual override; without it the target comes from leave applied in Keka
+    const halfDayOverride = typeof halfDayValue === "boolean" ? halfDayValue : null;
+    const dayTarget = resolveDayTarget(findAttendanceDay(attendanceData, shiftDay), halfDayOverride, workPolicy);
+
     // Calculate current metrics
-    const { metrics, totalWorkedMinutes, isClockedIn, leaveTimeInfo } = calculateMetrics(attendanceData, isHalfDay);
+    const { metrics, totalWorkedMinutes, isClockedIn, leaveTimeInfo } = calculateMetrics(attendanceData, dayTarget, workPolicy);
 
     // Calculate monthly stats for "Average Target"
-    const monthlyStats = processMonthlyStats(attendanceData, holidaysData, leaveData);
+    const monthlyStats = processMonthlyStats(attendanceData, holidaysData, leaveData, new Date(), workPolicy);
     const hoursNeededPerDay = monthlyStats.hoursNeededPerDay;
 
-    // Get notification states
-    const notificationStates = await getNotificationStates();
-
-    const targetMinutes = isHalfDay ? 4 * 60 + 30 : 8 * 60 + 15;
-    const notificationsToShow: Array<{ title: string; message: string; stateKey: keyof NotificationStates; newValue: any }> = [];
-    const nowLocal = new Date();
-    const currentHour = nowLocal.getHours();
-    const currentMinute = nowLocal.getMinutes();
-
-    // 1. Completion Notification
-    if (!notificationStates.completionNotifiedToday) {
-      const justCompleted = totalWorkedMinutes >= targetMinutes;
-      if (justCompleted) {
-        const message = isHalfDay
-          ? "You've completed your half day target! 🎉"
-          : "You've completed your full day target (8h 15m)! 🎉";
+    // Evaluate the user's notification rules against the current state
+    const rules = await getNotificationRules(profile.id);
+    const ruleContext: RuleContext = {
+      workedMinutes: totalWorkedMinutes,
+      targetMinutes: dayTarget.targetMinutes,
+      isHalfDay: dayTarget.isHalfDay,
+      isClockedIn,
+      hoursNeededPerDay,
+      leaveTimeInfo,
+      workPolicy,
+      now: new Date(),
+    };
+    const firedSteps = await getRuleNotifiedSteps(storage, rules, shiftDay);
+    const snoozedUntil = await getSnoozedUntil(storage, rules, shiftDay);
+
+    const notificationsToShow: Array<{ title: string; message: string; ruleId: string; step: number }> = [];
+    for (const rule of rules) {
+      // A snoozed rule is re-shown by its snooze alarm, not by the regular check
+      if ((snoozedUntil[rule.id] ?? 0) > Date.now()) continue;
+      const step = getRuleStep(rule, ruleContext);
+      // A repeating rule fires again only once it reaches a new step
+      if (step !== null && step > (firedSteps[rule.id] ?? 0)) {
         notificationsToShow.push({
-          title: "Work Target Completed! 🎯",
-          message,
-          stateKey: "completionNotifiedToday",
-          newValue: true
+          title: scope.titlePrefix + renderRuleTemplate(rule.title, ruleContext),
+          message: renderRuleTemplate(rule.message, ruleContext),
+          ruleId: rule.id,
+          step,
         });
       }
     }
 
-    // 2. Average Target Met (Happy Sense)
-    // Only if hoursNeededPerDay is available and LESS than the standard 8h 15m (8.25)
-    // and user has reached that target.
-    if (!notificationStates.averageTargetNotifiedToday && hoursNeededPerDay !== null) {
-      const standardTargetHours = 8.25; // 8h 15m
-      // If needed is less than standard, it's a "happy" early leave day potentially
-      if (hoursNeededPerDay < standardTargetHours) {
-        const neededMinutes = Math.ceil(hoursNeededPerDay * 60);
-        if (totalWorkedMinutes >= neededMinutes) {
-          notificationsToShow.push({
-            title: "Daily Average Met! 🌟",
-            message: "Great job today! 🎉 You’ve already hit your daily average. Feel free to wrap up whenever you’re ready — your monthly 8h 15m average is still on track! 🥳",
-            stateKey: "averageTargetNotifiedToday",
-            newValue: true
-          });
-        }
-      }
-    }
-
-    // 3. Overtime
-    if (totalWorkedMinutes > targetMinutes) {
-      const overtimeMinutes = totalWorkedMinutes - targetMinutes;
-
-      // Notify every 30 minutes of overtime
-      // Use logic: current chunk > last notified chunk
-      const currentOvertimeBase = Math.floor(overtimeMinutes / 30) * 30; // 0, 30, 60, 90...
-
-      if (currentOvertimeBase > 0 && currentOvertimeBase > notificationStates.lastOvertimeNotifiedMinutes) {
-        const hours = Math.floor(overtimeMinutes / 60);
-        const minutes = overtimeMinutes % 60;
-        const timeString = hours > 0
-          ? `${hours}h ${minutes > 0 ? `${minutes}m` : ''}`
-          : `${minutes}m`;
-
-        notificationsToShow.push({
-          title: "Overtime Alert! ⏰",
-          message: `You've worked ${timeString} overtime. Consider taking a break or logging out.`,
-          stateKey: "lastOvertimeNotifiedMinutes",
-          newValue: currentOvertimeBase
-        });
-
-        // Also set the boolean flag for backward compatibility or general status
-        if (!notificationStates.overtimeNotifiedToday) {
-          notificationsToShow.push({
-            title: "", // Hidden/Internal update
-            message: "",
-            stateKey: "overtimeNotifiedToday",
-            newValue: true
-          });
-        }
-      }
-    }
-
-    // 4. Clocked In Too Long
-    if (!notificationStates.clockedInTooLongNotifiedToday && isClockedIn) {
-      const nineHours = 9 * 60;
-      const isTooLong = totalWorkedMinutes >= nineHours;
-      if (isTooLong) {
-        notificationsToShow.push({
-          title: "Long Work Session Alert! ⚠️",
-          message: "You've been clocked in for 9+ hours. Remember to take breaks and prioritize your well-being!",
-          stateKey: "clockedInTooLongNotifiedToday",
-          newValue: true
-        });
-      }
-    }
-
-    // 5. Lunch Break (12:30 PM)
-    if (!notificationStates.lunchBreakNotifiedToday && isClockedIn) {
-      // Trigger at 12:30 PM (handle a simpler window to ensure we catch it if timer slightly off)
-      // Check if time is >= 12:30 and < 13:00 (broad window, but flag prevents repeat)
-      // Or strictly 12:30-12:35
-      if (currentHour === 12 && currentMinute >= 30) {
-        notificationsToShow.push({
-          title: "Lunch Break! 🥗",
-          message: "It's 12:30 PM. Time to grab some lunch and recharge! 🍱",
-          stateKey: "lunchBreakNotifiedToday",
-          newValue: true
-        });
-      }
-      // If user started AFTER 12:30, they might get this immediately? Yes, if isClockedIn. That seems acceptable.
-    }
+    // Process notifications in batch
+    if (notificationsToShow.length > 0) {
+      console.log(`Showing ${notificationsToShow.length} notification(s)`);
 
-    // 6. Tea Break (4:00 PM)
-    if (!notificationStates.teaBreakNotifiedToday && isClockedIn) {
-      // Trigger at 4:00 PM (16:00)
-      if (currentHour >= 16) {
-        notificationsToShow.push({
-          title: "Tea Break! ☕",
-          message: "It's 4:00 PM. Take a short break for tea/coffee! 🫖",
-          stateKey: "teaBreakNotifiedToday",
-          newValue: true
+      // Offer half day only when it would change today's target
+      const actions: NotificationAction[] = [
+        "snooze",
+        dayTarget.isHalfDay || dayTarget.targetMinutes === 0 ? "open-keka" : "half-day",
+      ];
+      for (const notification of notificationsToShow) {
+        await showNotification(
+          storage,
+          notification.title,
+          notification.message,
+          false,
+          buildNotificationId(notification.ruleId, shiftDay, actions, profile.id)
+        );
+        await setInStorage(storage, getRuleNotifiedKey(notification.ruleId, shiftDay), notification.step);
+        // Kept so a snooze can show the same text again later
+        await setInStorage(storage, getRuleContentKey(notification.ruleId, shiftDay), {
+          title: notification.title,
+          message: notification.message,
         });
       }
     }
 
-    // 7. Leave Time Approaching
-    if (leaveTimeInfo && !notificationStates.leaveTimeApproachingNotifiedToday && isClockedIn) {
+    // Refreshed on every check since remaining time moves even when the data doesn't.
+    // There is one badge, so it follows the profile shown in the popup.
+    if (isActive) {
       try {
-        const now = new Date();
-        const timeParts = leaveTimeInfo.normalLeaveTime.split(/[:\s]/);
-        if (timeParts.length >= 2) {
-          let leaveHour = parseInt(timeParts[0]);
-          // Check for PM and adjust if not 12
-          if (leaveTimeInfo.normalLeaveTime.toLowerCase().includes('pm') && leaveHour !== 12) {
-            leaveHour += 12;
-          }
-          // If AM and 12, it is midnight (0)
-          if (leaveTimeInfo.normalLeaveTime.toLowerCase().includes('am') && leaveHour === 12) {
-            leaveHour = 0;
-          }
-
-          const leaveTime = new Date();
-          leaveTime.setHours(leaveHour, parseInt(timeParts[1] as string) || 0, 0, 0);
-
-          const timeUntilLeave = (leaveTime.getTime() - now.getTime()) / (1000 * 60);
-          if (timeUntilLeave <= 30 && timeUntilLeave > 0) {
-            notificationsToShow.push({
-              title: "Leave Time Approaching! 🏠",
-              message: `Your leave time (${leaveTimeInfo.normalLeaveTime}) is approaching. Start wrapping up your work.`,
-              stateKey: "leaveTimeApproachingNotifiedToday",
-              newValue: true
-            });
-          }
-        }
+        await updateActionBadge(
+          await getBadgeMode(profile.id),
+          metrics,
+          totalWorkedMinutes,
+          dayTarget.targetMinutes,
+          isClockedIn,
+          leaveTimeInfo
+        );
       } catch (error) {
-        console.error("Error calculating leave time:", error);
-      }
-    }
-
-    // Process notifications in batch
-    if (notificationsToShow.length > 0) {
-      console.log(`Showing ${notificationsToShow.length} notification(s)`);
-
-      for (const notification of notificationsToShow) {
-        // Show notification only if it has a title/message (might be internal update)
-        if (notification.title && notification.message) {
-          await showNotification(notification.title, notification.message);
-        }
-        await updateNotificationState(notification.stateKey, notification.newValue);
+        console.error("Error updating badge:", error);
       }
     }
 
     // Check if data actually changed to avoid unnecessary storage writes and UI jitter
-    const hasDataChanged = JSON.stringify(attendanceData) !== JSON.stringify(storedAttendanceData);
+    const hasDataChanged =
+      JSON.stringify(attendanceData) !== JSON.stringify(storedAttendanceData) ||
+      storageData.current_shift_day !== shiftDay;
 
     if (hasDataChanged) {
+      archiveAttendanceDays(attendanceData, profile.id).catch((error) => {
+        console.error("Error archiving attendance:", error);
+      });
+
       // Store current metrics in storage for the popup to read
-      await browser.storage.local.set({
+      await storage.set({
         current_metrics: metrics,
         current_total_worked_minutes: totalWorkedMinutes,
         current_is_clocked_in: isClockedIn,
         current_leave_time_info: leaveTimeInfo,
+        current_shift_day: shiftDay,
         attendance_data: attendanceData,
         last_updated: Date.now()
       });
     }
 
+    return isClockedIn ? "clocked-in" : "clocked-out";
   } catch (error) {
     console.error("Error in notification logic:", error);
+    return "error";
+  }
+}
+
+// Next poll delay for one profile; backoff is tracked per profile so one broken tenant doesn't slow the others
+async function getProfilePollDelay(scope: ProfileScope, outcome: PollOutcome): Promise<number> {
+  const { poll_failures } = await scope.storage.get("poll_failures");
+  const failures = outcome === "error" ? ((poll_failures as number) || 0) + 1 : 0;
+  if (failures !== poll_failures) {
+    await setInStorage(scope.storage, "poll_failures", failures);
+  }
+
+  const workPolicy = await getWorkPolicy(scope.profile.id);
+  const delay = getNextPollDelayMinutes(outcome, failures, workPolicy);
+
+  // Wake up in time to warn about (and then handle) the token lapsing
+  const { access_token } = await scope.storage.get("access_token");
+  const expiresAt = decodeTokenExpiry(access_token as string | undefined);
+  if (expiresAt === null) return delay;
+  const minutesLeft = getTokenMinutesLeft(expiresAt);
+  const warningMinutes = await getTokenExpiryWarningMinutes(scope.profile.id);
+  const wakeups = [minutesLeft - warningMinutes, minutesLeft + 1].filter((minutes) => minutes > 0);
+  return Math.max(1, Math.min(delay, ...wakeups));
+}
+
+// Replaces the one-shot CHECK_METRICS alarm with the soonest delay any profile needs
+async function scheduleNextCheck(results: Array<{ scope: ProfileScope; outcome: PollOutcome }>) {
+  try {
+    const delays = await Promise.all(
+      results.map(({ scope, outcome }) => getProfilePollDelay(scope, outcome))
+    );
+    await browser.alarms.create(CHECK_METRICS_ALARM, { delayInMinutes: Math.min(...delays) });
+  } catch (error) {
+    console.error("Error scheduling next check:", error);
+  }
+}
+
+// Profiles are checked one after another so their requests and notifications don't interleave
+async function runProfileChecks(): Promise<Array<{ scope: ProfileScope; outcome: PollOutcome }>> {
+  const [scopes, activeProfileId] = await Promise.all([getProfileScopes(), getActiveProfileId()]);
+  const results: Array<{ scope: ProfileScope; outcome: PollOutcome }> = [];
+  for (const scope of scopes) {
+    const outcome = await runNotificationLogic(scope, scope.profile.id === activeProfileId);
+    results.push({ scope, outcome });
+  }
+  return results;
+}
+
+const ARCHIVE_BACKFILL_ALARM = "ARCHIVE_BACKFILL";
+const ARCHIVE_BACKFILL_MAX_MONTHS = 24;
+
+// Holidays and leave for a backfilled month, so offline Weekly/Monthly views can still show them.
+// Best effort: a month without them still counts as archived.
+async function archiveMonthSnapshots(accessToken: string, month: string, profileId: string) {
+  const snapshots = [
+    { kind: "holidays" as const, load: () => fetchHolidays(accessToken, month, profileId) },
+    { kind: "leave" as const, load: () => fetchLeaveSummary(accessToken, month, profileId) },
+  ];
+  for (const { kind, load } of snapshots) {
+    try {
+      await archiveSnapshot(kind, month, await load(), profileId);
+    } catch (error) {
+      if (!isApiErrorKind(error, "unauthorized") && !isApiErrorKind(error, "offline")) {
+        console.error(`Error archiving ${kind} for ${month}:`, error);
+      }
+    }
+  }
+}
+
+// Walks back one month per tick, archiving Keka's summary, until history runs out.
+// Returns whether the profile still has months left to fetch.
+async function runProfileArchiveBackfill({ storage, profile }: ProfileScope): Promise<boolean> {
+  try {
+    const { access_token, archive_backfill } = await storage.get(['access_token', 'archive_backfill']);
+    const progress = (archive_backfill as { cursor: string; done: boolean } | undefined) ?? {
+      cursor: getDayKey(startOfMonth(subMonths(new Date(), 1))),
+      done: false,
+    };
+
+    const oldestMonth = startOfMonth(subMonths(new Date(), ARCHIVE_BACKFILL_MAX_MONTHS));
+    if (progress.done || parseISO(progress.cursor) < oldestMonth) {
+      await setInStorage(storage, 'archive_backfill', { ...progress, done: true });
+      return false;
+    }
+    // The regular check deals with missing or expired tokens
+    if (!access_token) return true;
+
+    const attendanceData = await fetchAttendanceSummary(access_token as string, progress.cursor, profile.id);
+    if (!hasAttendanceHistory(attendanceData)) {
+      await setInStorage(storage, 'archive_backfill', { ...progress, done: true });
+      return false;
+    }
+
+    await archiveAttendanceDays(attendanceData!, profile.id);
+    await archiveMonthSnapshots(access_token as string, progress.cursor, profile.id);
+    await setInStorage(storage, 'archive_backfill', {
+      cursor: getDayKey(subMonths(parseISO(progress.cursor), 1)),
+      done: false,
+    });
+    return true;
+  } catch (error) {
+    // Try the same month again on the next tick
+    if (!isApiErrorKind(error, "unauthorized") && !isApiErrorKind(error, "offline")) {
+      console.error("Error backfilling archive:", error);
+    }
+    return true;
+  }
+}
+
+async function runArchiveBackfill() {
+  let pending = false;
+  for (const scope of await getProfileScopes()) {
+    if (await runProfileArchiveBackfill(scope)) pending = true;
+  }
+  if (!pending) {
+    await browser.alarms.clear(ARCHIVE_BACKFILL_ALARM);
   }
 }
 
+// Started on install and whenever a profile is added; stops itself once every profile is done
+async function ensureArchiveBackfill() {
+  try {
+    for (const { storage } of await getProfileScopes()) {
+      const { archive_backfill } = await storage.get('archive_backfill');
+      if ((archive_backfill as { done?: boolean } | undefined)?.done) continue;
+      const alarm = await browser.alarms.get(ARCHIVE_BACKFILL_ALARM);
+      if (!alarm) {
+        await browser.alarms.create(ARCHIVE_BACKFILL_ALARM, { delayInMinutes: 1, periodInMinutes: 5 });
+      }
+      return;
+    }
+  } catch (error) {
+    console.error('Error scheduling archive backfill:', error);
+  }
+}
+
+// Runs that failed before any profile could report an outcome (e.g. storage errors).
+// Kept in memory only; a restarted worker simply starts backing off again.
+let failedCheckRuns = 0;
+
+// Keeps polling alive when a run fails as a whole, backing off like a failed profile check
+async function scheduleRetryAfterFailedRun() {
+  failedCheckRuns++;
+  try {
+    await browser.alarms.create(CHECK_METRICS_ALARM, {
+      delayInMinutes: getNextPollDelayMinutes("error", failedCheckRuns, DEFAULT_WORK_POLICY),
+    });
+  } catch (error) {
+    console.error("Error scheduling next check:", error);
+  }
+}
+
+// Alarm ticks and popup FORCE_CHECKs can overlap; share the in-flight run instead of fetching twice.
+// Never rejects: every run ends by scheduling the next one.
+let inFlightCheck: Promise<void> | null = null;
+
+function runScheduledCheck(): Promise<void> {
+  if (!inFlightCheck) {
+    inFlightCheck = runProfileChecks()
+      .then((results) => {
+        failedCheckRuns = 0;
+        return scheduleNextCheck(results);
+      })
+      .catch((error) => {
+        console.error("Error running checks:", error);
+        return scheduleRetryAfterFailedRun();
+      })
+      .finally(() => {
+        inFlightCheck = null;
+      });
+  }
+  return inFlightCheck;
+}
+
+// Snapshot of the active profile for the popup, so it doesn't have to know the storage layout
+async function getBackgroundStatus(): Promise<BackgroundStatus> {
+  const profileId = await getActiveProfileId();
+  const storage = getProfileStorage(profileId);
+  const data = await storage.get([
+    'access_token',
+    'current_metrics',
+    'current_total_worked_minutes',
+    'current_is_clocked_in',
+    'current_leave_time_info',
+    'attendance_data',
+    'current_shift_day',
+    'last_updated',
+    'poll_failures',
+    RESPONSE_FORMAT_ISSUE_STORAGE_KEY,
+  ]);
+  const shiftDay = (data.current_shift_day as string) || null;
+  const halfDayKey = getHalfDayKey(shiftDay || getDayKey());
+  const { [halfDayKey]: halfDayValue } = await storage.get(halfDayKey);
+
+  return {
+    profileId,
+    signedIn: !!data.access_token,
+    tokenExpiresAt: decodeTokenExpiry(data.access_token as string | undefined),
+    metrics: (data.current_metrics as Metrics) || null,
+    totalWorkedMinutes: (data.current_total_worked_minutes as number) || 0,
+    isClockedIn: data.current_is_clocked_in === true,
+    leaveTimeInfo: (data.current_leave_time_info as LeaveTimeInfo) || null,
+    attendanceData: (data.attendance_data as AttendanceData[]) || [],
+    shiftDay,
+    halfDayOverride: typeof halfDayValue === "boolean" ? halfDayValue : null,
+    lastUpdated: (data.last_updated as number) || null,
+    pollFailures: (data.poll_failures as number) || 0,
+    responseFormatIssue: (data[RESPONSE_FORMAT_ISSUE_STORAGE_KEY] as ResponseFormatIssue) || null,
+  };
+}
+
+// Same override the popup's half day toggle and the notification button write, for the active profile
+async function setHalfDayOverride(value: boolean | null, day?: string) {
+  const storage = getProfileStorage(await getActiveProfileId());
+  const { current_shift_day } = await storage.get('current_shift_day');
+  const key = getHalfDayKey(day || (current_shift_day as string) || getDayKey());
+  if (value === null) {
+    await storage.remove(key);
+  } else {
+    await storage.set({ [key]: value });
+  }
+  await runScheduledCheck();
+}
+
+// Also forgets a recorded format issue; the fresh check records it again if Keka still differs
+async function refreshCaches() {
+  const profileId = await getActiveProfileId();
+  await clearApiCache(profileId);
+  await getProfileStorage(profileId).remove(RESPONSE_FORMAT_ISSUE_STORAGE_KEY);
+  await runScheduledCheck();
+}
+
 // Main background initialization
 export default defineBackground(() => {
   console.log('Keka Background Service Started! 🎯');
@@ -428,33 +834,108 @@ export default defineBackground(() => {
   }
 
   // Message handling for communication with popup
-  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
-    if (message.type === 'FORCE_CHECK') {
-      runNotificationLogic();
-      sendResponse({ success: true });
+  handleMessages({
+    // Answered right away; the popup picks up the results through GET_STATUS or storage changes
+    FORCE_CHECK: () => {
+      runScheduledCheck();
+      return null;
+    },
+    TOKEN_CAPTURED: ({ token }, sender) => {
+      handleCapturedToken(token, sender.tab?.url);
+      return null;
+    },
+    GET_STATUS: () => getBackgroundStatus(),
+    SET_HALF_DAY: async ({ value, day }) => {
+      await setHalfDayOverride(value, day);
+      return null;
+    },
+    REFRESH_CACHES: async () => {
+      await refreshCaches();
+      return null;
+    },
+  });
+
+  // Listen for alarm events; each check schedules the next one
+  browser.alarms.onAlarm.addListener(async (alarm) => {
+    if (alarm.name === CHECK_METRICS_ALARM) {
+      await runScheduledCheck();
+    } else if (alarm.name === ARCHIVE_BACKFILL_ALARM) {
+      await runArchiveBackfill();
+    } else if (alarm.name.startsWith(SNOOZE_ALARM_PREFIX)) {
+      await showSnoozedNotification(alarm.name);
     }
-    return true;
   });
 
-  // Create periodic alarm to check metrics every minute
-  browser.alarms.create('CHECK_METRICS', {
-    periodInMinutes: 1, // Check every minute
-    delayInMinutes: 0.1 // Start after 6 seconds
-  }).catch((error) => {
-    console.error('Error creating alarm:', error);
+  // Notification buttons and clicks
+  browser.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+    const parsed = parseNotificationId(notificationId);
+    handleNotificationAction(notificationId, parsed?.actions[buttonIndex] ?? null);
   });
 
-  // Listen for alarm events
-  browser.alarms.onAlarm.addListener(async (alarm) => {
-    if (alarm.name === 'CHECK_METRICS') {
-      await runNotificationLogic();
+  browser.notifications.onClicked.addListener((notificationId) => {
+    handleNotificationAction(notificationId, "open-keka");
+  });
+
+  // Settings edited here are stamped (and pushed when sync is on); edits from other devices are merged in
+  browser.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && (PROFILES_STORAGE_KEY in changes || ACTIVE_PROFILE_STORAGE_KEY in changes)) {
+      // New profiles start monitoring (and backfilling) right away; the badge follows the active one
+      runScheduledCheck();
+      ensureArchiveBackfill();
     }
+    if (areaName === 'local') {
+      // Organisation policy wins over edits, imports and synced values
+      applyManagedSettings(Object.keys(changes)).catch((error) => {
+        console.error('Error applying managed settings:', error);
+      });
+      recordSettingChanges(changes).catch((error) => {
+        console.error('Error recording settings change:', error);
+      });
+    } else if (areaName === 'managed') {
+      applyManagedSettings()
+        .then(() => runScheduledCheck())
+        .catch((error) => {
+          console.error('Error applying managed settings:', error);
+        });
+    } else if (areaName === 'sync') {
+      isSettingsSyncEnabled().then((enabled) => {
+        if (enabled) return reconcileSettingsSync(Object.keys(changes));
+      }).catch((error) => {
+        console.error('Error merging synced settings:', error);
+      });
+    }
+  });
+
+  applyManagedSettings().catch((error) => {
+    console.error('Error applying managed settings:', error);
+  });
+
+  // Catch up with changes made on other devices while this one was offline
+  isSettingsSyncEnabled().then((enabled) => {
+    if (enabled) return reconcileSettingsSync();
+  }).catch((error) => {
+    console.error('Error syncing settings:', error);
   });
 
-  // Run initial check
+  // The worker restarts on every alarm, so only kick off a check when nothing is scheduled yet
+  // (first install, or the periodic alarm left behind by older versions). The one-shot alarm that
+  // woke the worker is already gone by now, so wait until its check has started (or rescheduled).
   setTimeout(() => {
-    runNotificationLogic();
+    browser.alarms.get(CHECK_METRICS_ALARM).then((alarm) => {
+      if (inFlightCheck || (alarm && !alarm.periodInMinutes)) return;
+      return runScheduledCheck();
+    }).catch((error) => {
+      console.error('Error reading alarm:', error);
+    });
   }, 2000);
 
-  console.log('Background service initialized with 1-minute metric checks');
+  // History backfill runs slowly in the background until it reaches the oldest month
+  ensureArchiveBackfill();
+
+  // Catch up as soon as the connection is back instead of waiting for the next alarm
+  onConnectivityChange((online) => {
+    if (online) runScheduledCheck();
+  });
+
+  console.log('Background service initialized with adaptive metric checks');
 });
@@ -1,17 +1,59 @@
+import { sendMessage } from "../utils/messages";
+
+const TOKEN_STORAGE_KEY = "access_token";
+// Keka's login redirect writes the token from the same page, which fires no storage event,
+// so the token is re-read for a short while after each navigation
+const TOKEN_SETTLE_INTERVAL_MS = 2000;
+const TOKEN_SETTLE_CHECKS = 15;
+
 export default defineContentScript({
   matches: ["*://*.keka.com/*"],
   main() {
-    // Listen for messages from popup requesting access_token
-    browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
-      if (message.action === "getAccessToken") {
-        try {
-          const accessToken = localStorage.getItem("access_token");
-          sendResponse({ success: true, accessToken });
-        } catch (error) {
-          sendResponse({ success: false, error: String(error) });
-        }
-        return true; // Keep the message channel open for async response
+    let lastPushedToken: string | null = null;
+
+    // Pushes the token Keka's web app keeps in localStorage whenever it appears or changes
+    const pushToken = () => {
+      let token: string | null = null;
+      try {
+        token = localStorage.getItem(TOKEN_STORAGE_KEY);
+      } catch (error) {
+        return;
       }
+      if (!token || token === lastPushedToken) return;
+
+      lastPushedToken = token;
+      sendMessage("TOKEN_CAPTURED", { token }).catch(() => {
+        // The background may be restarting; try again on the next check
+        lastPushedToken = null;
+      });
+    };
+
+    let settleTimer: ReturnType<typeof setInterval> | null = null;
+    const watchAfterNavigation = () => {
+      if (settleTimer) clearInterval(settleTimer);
+      let checks = 0;
+      settleTimer = setInterval(() => {
+        pushToken();
+        checks += 1;
+        if (checks >= TOKEN_SETTLE_CHECKS && settleTimer) {
+          clearInterval(settleTimer);
+          settleTimer = null;
+        }
+      }, TOKEN_SETTLE_INTERVAL_MS);
+    };
+
+    pushToken();
+    watchAfterNavigation();
+
+    // Another Keka tab logged in or refreshed the token
+    window.addEventListener("storage", (event) => {
+      if (event.key === TOKEN_STORAGE_KEY) pushToken();
+    });
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "visible") pushToken();
     });
+    // Keka is a single page app, so in-app navigation doesn't reload the script
+    window.addEventListener("popstate", watchAfterNavigation);
+    window.addEventListener("hashchange", watchAfterNavigation);
   },
 });
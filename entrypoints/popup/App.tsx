@@ -1,9 +1,14 @@
-import { useState } from "react";
+import { useState, useMemo } from "react";
 import "./App.css";
 import TodayOverview from "./components/TodayOverview";
 import MonthlyOverview from "./components/MonthlyOverview";
 import Settings from "./components/Settings";
 import Setup from "./components/Setup";
+import PunchButton from "./components/PunchButton";
+import DayStepper from "./components/DayStepper";
+import ExportView from "./components/ExportView";
+import ProfileSwitcher from "./components/ProfileSwitcher";
+import ResponseFormatNotice from "./components/ResponseFormatNotice";
 import { browser } from "wxt/browser";
 
 import { useAuth } from "./hooks/useAuth";
@@ -11,19 +16,42 @@ import { useCurrentMetrics } from "./hooks/useCurrentMetrics";
 import { useHalfDay } from "./hooks/useHalfDay";
 import { useMonthlyStats } from "./hooks/useMonthlyStats";
 import { useWeeklyStats } from "./hooks/useWeeklyStats";
+import { useWorkPolicy } from "./hooks/useWorkPolicy";
+import { useDayPlans } from "./hooks/useDayPlans";
+import { useNotificationRules } from "./hooks/useNotificationRules";
+import { useDayHistory } from "./hooks/useDayHistory";
+import { useManagedSettings } from "./hooks/useManagedSettings";
+import { useProfiles } from "./hooks/useProfiles";
+import {
+  isTabAffectedByIssue,
+  useResponseFormatIssue,
+  type PopupTab,
+} from "./hooks/useResponseFormatIssue";
+import { applyManagedSettings } from "../../utils/managed";
+import { getKekaHomeUrl } from "../../utils/api";
+import { resolveProfileStorage } from "../../utils/profiles";
+import type { RuleContext } from "../../utils/types";
 import WeeklyOverview from "./components/WeeklyOverview";
 
 function App() {
   const { accessToken, loading: authLoading, error: authError } = useAuth();
 
-  // View State: 'main' or 'settings' or 'setup'
+  // View State: 'main', 'settings', 'export' or 'setup'
   const [activeView, setActiveView] = useState<
-    "main" | "settings" | "setup" | "loading"
+    "main" | "settings" | "export" | "setup" | "loading"
   >("loading");
 
   useEffect(() => {
     const checkSetup = async () => {
-      const { keka_domain } = await browser.storage.local.get("keka_domain");
+      // A domain pushed by IT policy counts as set up
+      try {
+        await applyManagedSettings();
+      } catch (error) {
+        console.error("Error applying managed settings:", error);
+      }
+      const { keka_domain } = await (await resolveProfileStorage()).get(
+        "keka_domain"
+      );
       if (keka_domain) {
         setActiveView("main");
       } else {
@@ -33,7 +61,24 @@ function App() {
     checkSetup();
   }, []);
 
-  const { isHalfDay, setIsHalfDay } = useHalfDay();
+  const { halfDayOverride, setHalfDayOverride, clearHalfDayOverride } =
+    useHalfDay();
+  const { workPolicy, updateWorkPolicy } = useWorkPolicy();
+  const { managed: managedSettings } = useManagedSettings();
+  const {
+    profiles,
+    activeProfileId,
+    switchProfile,
+    addProfile,
+    renameProfile,
+    removeProfile,
+  } = useProfiles();
+  const responseFormatIssue = useResponseFormatIssue(activeProfileId);
+  // Organisation policy is applied to every account alike
+  const managed = managedSettings;
+  const { plans, setDayPlan } = useDayPlans();
+  const { rules: notificationRules, updateRules: updateNotificationRules } =
+    useNotificationRules();
 
   const {
     metrics,
@@ -42,20 +87,61 @@ function App() {
     timePairs,
     breaks,
     unpairedInEntry,
+    shiftDay,
+    dayTarget,
     loading: metricsLoading,
     error: metricsError,
     totalWorkedMinutes,
-  } = useCurrentMetrics(isHalfDay);
+  } = useCurrentMetrics(halfDayOverride, workPolicy);
 
-  const [activeTab, setActiveTab] = useState<"today" | "weekly" | "monthly">(
-    "today"
-  );
+  const [activeTab, setActiveTab] = useState<PopupTab>("today");
+  // Only the tabs that read the endpoint Keka changed are held back
+  const tabFormatIssue = isTabAffectedByIssue(responseFormatIssue, activeTab)
+    ? responseFormatIssue
+    : null;
+
+  // Past day shown in the Today tab; null is the live current day
+  const [historyDay, setHistoryDay] = useState<string | null>(null);
+  const dayHistory = useDayHistory(accessToken, historyDay, workPolicy);
 
   const [selectedMonth, setSelectedMonth] = useState(new Date());
   const [selectedWeek, setSelectedWeek] = useState(new Date());
 
-  const monthlyStats = useMonthlyStats(accessToken, selectedMonth);
-  const weeklyStats = useWeeklyStats(accessToken, isHalfDay, selectedWeek);
+  const monthlyStats = useMonthlyStats(
+    accessToken,
+    selectedMonth,
+    workPolicy,
+    plans
+  );
+  const weeklyStats = useWeeklyStats(
+    accessToken,
+    halfDayOverride,
+    selectedWeek,
+    workPolicy,
+    plans
+  );
+
+  // Same inputs the background evaluates rules against, used to test-fire them from Settings
+  const ruleContext = useMemo<RuleContext>(
+    () => ({
+      workedMinutes: totalWorkedMinutes,
+      targetMinutes: dayTarget.targetMinutes,
+      isHalfDay: dayTarget.isHalfDay,
+      isClockedIn,
+      hoursNeededPerDay: monthlyStats.hoursNeededPerDay,
+      leaveTimeInfo,
+      workPolicy,
+      now: new Date(),
+    }),
+    [
+      totalWorkedMinutes,
+      dayTarget,
+      isClockedIn,
+      monthlyStats.hoursNeededPerDay,
+      leaveTimeInfo,
+      workPolicy,
+    ]
+  );
 
   // Combine loading/error states appropriately
   const appLoading = authLoading || (activeTab === "today" && metricsLoading);
@@ -76,7 +162,13 @@ function App() {
       <header className="header">
         <div className="header-title">
           <img src="/icon/32.png" alt="logo" className="header-logo" />
-          <span>{activeView === "settings" ? "Settings" : "Kivo"}</span>
+          <span>
+            {activeView === "settings"
+              ? "Settings"
+              : activeView === "export"
+                ? "Export"
+                : "Kivo"}
+          </span>
           {activeView === "main" && !metricsLoading && (
             <div
               className={`status-badge ${!isClockedIn ? "punched-out" : ""}`}
@@ -85,16 +177,41 @@ function App() {
               {isClockedIn ? "Punched In" : "Punched Out"}
             </div>
           )}
+          {activeView === "main" && !metricsLoading && (
+            <PunchButton
+              accessToken={accessToken}
+              isClockedIn={isClockedIn}
+              workPolicy={workPolicy}
+            />
+          )}
+        </div>
+        <div className="header-actions">
+          {activeView === "main" && (
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfileId={activeProfileId}
+              onSwitch={switchProfile}
+            />
+          )}
+          {activeView === "main" && managed.features.export && (
+            <button
+              className="icon-button"
+              onClick={() => setActiveView("export")}
+              title="Export"
+            >
+              📤
+            </button>
+          )}
+          <button
+            className="icon-button"
+            onClick={() =>
+              setActiveView(activeView === "main" ? "settings" : "main")
+            }
+            title={activeView === "main" ? "Settings" : "Back to Dashboard"}
+          >
+            {activeView === "main" ? "⚙️" : "✕"}
+          </button>
         </div>
-        <button
-          className="icon-button"
-          onClick={() =>
-            setActiveView(activeView === "main" ? "settings" : "main")
-          }
-          title={activeView === "settings" ? "Back to Dashboard" : "Settings"}
-        >
-          {activeView === "settings" ? "✕" : "⚙️"}
-        </button>
       </header>
 
       {/* Main Dashboard View */}
@@ -111,14 +228,7 @@ function App() {
               <button
                 className="open-keka-button"
                 onClick={async () => {
-                  const { keka_domain } = await browser.storage.local.get(
-                    "keka_domain"
-                  );
-                  const kekaDomain = keka_domain as string;
-                  const url = kekaDomain.startsWith("http")
-                    ? kekaDomain
-                    : `https://${kekaDomain}`;
-                  browser.tabs.create({ url });
+                  browser.tabs.create({ url: await getKekaHomeUrl() });
                 }}
               >
                 Open Keka
@@ -162,24 +272,52 @@ function App() {
                 </button>
               </div>
 
-              {activeTab === "today" && (
-                <TodayOverview
-                  loading={appLoading}
-                  error={appError}
-                  metrics={metrics}
-                  isHalfDay={isHalfDay}
-                  leaveTimeInfo={leaveTimeInfo}
-                  timePairs={timePairs}
-                  breaks={breaks}
-                  unpairedInEntry={unpairedInEntry}
-                  totalWorkedMinutes={totalWorkedMinutes}
-                  hoursNeededPerDay={weeklyStats.hoursNeededPerDay}
-                />
+              {tabFormatIssue && <ResponseFormatNotice issue={tabFormatIssue} />}
+
+              {!tabFormatIssue && activeTab === "today" && (
+                <>
+                  <DayStepper
+                    selectedDay={historyDay}
+                    currentDay={shiftDay}
+                    onChange={setHistoryDay}
+                  />
+                  {historyDay ? (
+                    <TodayOverview
+                      loading={dayHistory.loading}
+                      error={dayHistory.error}
+                      metrics={dayHistory.metrics}
+                      dayTarget={dayHistory.dayTarget ?? dayTarget}
+                      leaveTimeInfo={null}
+                      timePairs={dayHistory.timePairs}
+                      breaks={dayHistory.breaks}
+                      unpairedInEntry={dayHistory.unpairedInEntry}
+                      shiftDay={historyDay}
+                      totalWorkedMinutes={dayHistory.totalWorkedMinutes}
+                      hoursNeededPerDay={null}
+                      historical
+                    />
+                  ) : (
+                    <TodayOverview
+                      loading={appLoading}
+                      error={appError}
+                      metrics={metrics}
+                      dayTarget={dayTarget}
+                      leaveTimeInfo={leaveTimeInfo}
+                      timePairs={timePairs}
+                      breaks={breaks}
+                      unpairedInEntry={unpairedInEntry}
+                      shiftDay={shiftDay}
+                      totalWorkedMinutes={totalWorkedMinutes}
+                      hoursNeededPerDay={weeklyStats.hoursNeededPerDay}
+                    />
+                  )}
+                </>
               )}
 
-              {activeTab === "weekly" && (
+              {!tabFormatIssue && activeTab === "weekly" && (
                 <WeeklyOverview
                   loading={weeklyStats.loading}
+                  error={weeklyStats.error}
                   weeklyTarget={weeklyStats.weeklyTarget}
                   totalWorked={weeklyStats.totalWorked}
                   remaining={weeklyStats.remaining}
@@ -190,14 +328,18 @@ function App() {
                   totalWorkingDays={weeklyStats.totalWorkingDays}
                   currentWorkingDay={weeklyStats.currentWorkingDay}
                   remainingWorkingDays={weeklyStats.remainingWorkingDays}
+                  days={weeklyStats.days}
                   selectedDate={selectedWeek}
                   onDateChange={setSelectedWeek}
+                  plans={plans}
+                  onSetPlan={setDayPlan}
                 />
               )}
 
-              {activeTab === "monthly" && (
+              {!tabFormatIssue && activeTab === "monthly" && (
                 <MonthlyOverview
                   loading={monthlyStats.loading}
+                  error={monthlyStats.error}
                   totalWorkingDays={monthlyStats.totalWorkingDays}
                   currentWorkingDay={monthlyStats.currentWorkingDay}
                   remainingWorkingDays={monthlyStats.remainingWorkingDays}
@@ -205,8 +347,14 @@ function App() {
                   hoursNeededPerDay={monthlyStats.hoursNeededPerDay}
                   holidaysCount={monthlyStats.holidays.length}
                   leaveDaysCount={monthlyStats.leaveDaysCount}
+                  anomalies={monthlyStats.anomalies}
+                  calendarDays={monthlyStats.calendarDays}
+                  attendanceData={monthlyStats.attendanceData}
+                  workPolicy={workPolicy}
                   selectedMonth={selectedMonth}
                   onMonthChange={setSelectedMonth}
+                  plans={plans}
+                  onSetPlan={setDayPlan}
                 />
               )}
             </>
@@ -216,7 +364,27 @@ function App() {
 
       {/* Settings View */}
       {activeView === "settings" && (
-        <Settings isHalfDay={isHalfDay} setIsHalfDay={setIsHalfDay} />
+        <Settings
+          dayTarget={dayTarget}
+          setHalfDayOverride={setHalfDayOverride}
+          clearHalfDayOverride={clearHalfDayOverride}
+          workPolicy={workPolicy}
+          onSaveWorkPolicy={updateWorkPolicy}
+          notificationRules={notificationRules}
+          onSaveNotificationRules={updateNotificationRules}
+          ruleContext={ruleContext}
+          managed={managed}
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          onAddProfile={addProfile}
+          onRenameProfile={renameProfile}
+          onRemoveProfile={removeProfile}
+        />
+      )}
+
+      {/* Export View */}
+      {activeView === "export" && (
+        <ExportView accessToken={accessToken} workPolicy={workPolicy} />
       )}
     </div>
   );
@@ -0,0 +1,60 @@
+import { format, parseISO } from "date-fns";
+import { browser } from "wxt/browser";
+import type { PunchAnomaly } from "../../../utils/types";
+import { getRegularizationUrl } from "../../../utils/api";
+
+interface AttendanceAnomaliesProps {
+  anomalies: PunchAnomaly[];
+}
+
+const ANOMALY_LABELS: Record<PunchAnomaly["type"], string> = {
+  "double-in": "Double In",
+  "orphan-out": "Orphan Out",
+  "missing-out": "Missing Out",
+  "zero-length": "Zero Length",
+};
+
+export default function AttendanceAnomalies({
+  anomalies,
+}: AttendanceAnomaliesProps) {
+  if (anomalies.length === 0) {
+    return null;
+  }
+
+  const openRegularization = async (date: string) => {
+    try {
+      const url = await getRegularizationUrl(date);
+      await browser.tabs.create({ url });
+    } catch (error) {
+      console.error("Failed to open Keka regularization page", error);
+    }
+  };
+
+  return (
+    <div className="attendance-list anomaly-list">
+      <h3 className="list-title">Fix My Attendance ({anomalies.length})</h3>
+      <ul>
+        {anomalies.map((anomaly) => (
+          <li
+            key={`${anomaly.type}-${anomaly.timestamp}`}
+            className="anomaly-entry"
+          >
+            <div className="anomaly-details">
+              <span className="anomaly-date">
+                {format(parseISO(anomaly.date), "EEE, dd MMM")} ·{" "}
+                {ANOMALY_LABELS[anomaly.type]}
+              </span>
+              <span className="anomaly-message">{anomaly.message}</span>
+            </div>
+            <button
+              className="anomaly-fix-button"
+              onClick={() => openRegularization(anomaly.date)}
+            >
+              Fix
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
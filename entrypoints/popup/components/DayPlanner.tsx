@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import type { DayPlan, DayPlanKind, DayPlans } from "../../../utils/types";
+import { formatMinutes } from "../../../utils/calculations";
+import { getDayKey } from "../../../utils/period";
+
+interface DayPlannerProps {
+  plans: DayPlans;
+  // Inclusive yyyy-MM-dd range of the plans to list
+  rangeStart: string;
+  rangeEnd: string;
+  onSetPlan: (day: string, plan: DayPlan | null) => void;
+}
+
+const PLAN_LABELS: Record<DayPlanKind, string> = {
+  "half-day": "Half day",
+  leave: "Leave",
+  custom: "Custom",
+};
+
+export default function DayPlanner({
+  plans,
+  rangeStart,
+  rangeEnd,
+  onSetPlan,
+}: DayPlannerProps) {
+  const tomorrow = getDayKey(addDays(new Date(), 1));
+  const [day, setDay] = useState(tomorrow);
+  const [kind, setKind] = useState<DayPlanKind>("half-day");
+  const [hours, setHours] = useState(6);
+  const [minutes, setMinutes] = useState(0);
+
+  const plannedDays = Object.keys(plans)
+    .filter((d) => d >= tomorrow && d >= rangeStart && d <= rangeEnd)
+    .sort();
+
+  const handleAdd = () => {
+    if (!day || day < tomorrow) return;
+    onSetPlan(
+      day,
+      kind === "custom"
+        ? { kind, targetMinutes: Math.max(0, hours * 60 + minutes) }
+        : { kind }
+    );
+  };
+
+  const describePlan = (plan: DayPlan) =>
+    plan.kind === "custom" && plan.targetMinutes !== undefined
+      ? `${PLAN_LABELS.custom} · ${formatMinutes(plan.targetMinutes)}`
+      : PLAN_LABELS[plan.kind];
+
+  return (
+    <div className="attendance-list day-planner">
+      <h3 className="list-title">Plan Ahead</h3>
+      <div className="day-planner-form">
+        <input
+          type="date"
+          className="day-planner-input"
+          value={day}
+          min={tomorrow}
+          onChange={(e) => setDay(e.target.value)}
+        />
+        <select
+          className="day-planner-input"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as DayPlanKind)}
+        >
+          {(Object.keys(PLAN_LABELS) as DayPlanKind[]).map((k) => (
+            <option key={k} value={k}>
+              {PLAN_LABELS[k]}
+            </option>
+          ))}
+        </select>
+        {kind === "custom" && (
+          <>
+            <input
+              type="number"
+              className="day-planner-input day-planner-number"
+              min={0}
+              max={23}
+              value={hours}
+              onChange={(e) => setHours(Number(e.target.value) || 0)}
+              title="Hours"
+            />
+            <input
+              type="number"
+              className="day-planner-input day-planner-number"
+              min={0}
+              max={59}
+              value={minutes}
+              onChange={(e) => setMinutes(Number(e.target.value) || 0)}
+              title="Minutes"
+            />
+          </>
+        )}
+        <button className="day-planner-add" onClick={handleAdd}>
+          Add
+        </button>
+      </div>
+      {plannedDays.length > 0 && (
+        <ul>
+          {plannedDays.map((d) => (
+            <li key={d}>
+              <span>
+                {format(parseISO(d), "EEE, dd MMM")} · {describePlan(plans[d])}
+              </span>
+              <button
+                className="day-planner-remove"
+                onClick={() => onSetPlan(d, null)}
+                title="Remove plan"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { format, parseISO, addDays, subDays } from "date-fns";
+import { getDayKey } from "../../../utils/period";
+
+interface DayStepperProps {
+  // null means the live current day
+  selectedDay: string | null;
+  currentDay: string;
+  onChange: (day: string | null) => void;
+}
+
+export default function DayStepper({
+  selectedDay,
+  currentDay,
+  onChange,
+}: DayStepperProps) {
+  const day = selectedDay ?? currentDay;
+  const isLive = selectedDay === null;
+
+  const handlePrevDay = () => {
+    onChange(getDayKey(subDays(parseISO(day), 1)));
+  };
+
+  const handleNextDay = () => {
+    if (isLive) return;
+    const next = getDayKey(addDays(parseISO(day), 1));
+    // Stepping onto the current day goes back to the live view
+    onChange(next >= currentDay ? null : next);
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+        background: "#fff",
+        borderRadius: "6px",
+        border: "1px solid #e5e7eb",
+        padding: "4px",
+        marginBottom: "12px",
+      }}
+    >
+      <button
+        onClick={handlePrevDay}
+        style={{
+          border: "none",
+          background: "transparent",
+          cursor: "pointer",
+          padding: "4px 8px",
+          color: "#6b7280",
+        }}
+      >
+        ←
+      </button>
+      <span style={{ fontSize: "12px", fontWeight: 500, color: "#374151" }}>
+        {isLive ? "Today" : format(parseISO(day), "EEE, dd MMM yyyy")}
+        {!isLive && (
+          <button
+            onClick={() => onChange(null)}
+            style={{
+              marginLeft: "8px",
+              padding: 0,
+              border: "none",
+              background: "transparent",
+              color: "#3b82f6",
+              cursor: "pointer",
+              fontSize: "11px",
+            }}
+          >
+            Back to today
+          </button>
+        )}
+      </span>
+      <button
+        onClick={handleNextDay}
+        disabled={isLive}
+        style={{
+          border: "none",
+          background: "transparent",
+          cursor: isLive ? "not-allowed" : "pointer",
+          padding: "4px 8px",
+          color: isLive ? "#d1d5db" : "#6b7280",
+        }}
+      >
+        →
+      </button>
+    </div>
+  );
+}
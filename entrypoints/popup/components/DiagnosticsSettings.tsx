@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { browser } from "wxt/browser";
+import { format } from "date-fns";
+import { formatMinutes } from "../../../utils/calculations";
+import type { BackgroundStatus } from "../../../utils/types";
+import { getProfileStorageKey } from "../../../utils/profiles";
+import {
+  TOKEN_EXPIRY_WARNING_OPTIONS,
+  getTokenExpiryWarningMinutes,
+  getTokenMinutesLeft,
+  saveTokenExpiryWarningMinutes,
+} from "../../../utils/token";
+import { sendMessage } from "../../../utils/messages";
+
+const rowStyle = {
+  display: "flex",
+  justifyContent: "space-between",
+  marginBottom: "4px",
+};
+
+export default function DiagnosticsSettings() {
+  const [diagnostics, setDiagnostics] = useState<BackgroundStatus | null>(
+    null
+  );
+  const [warningMinutes, setWarningMinutes] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    let storageKey = (key: string) => key;
+
+    const load = async () => {
+      try {
+        const status = await sendMessage("GET_STATUS");
+        storageKey = (key) => getProfileStorageKey(status.profileId, key);
+        setDiagnostics(status);
+        setWarningMinutes(await getTokenExpiryWarningMinutes());
+      } catch (error) {
+        console.error("Error loading diagnostics:", error);
+      }
+    };
+    load();
+
+    const handleStorageChange = (
+      changes: Record<string, unknown>,
+      areaName: string
+    ) => {
+      if (areaName !== "local") return;
+      if (
+        ["access_token", "last_updated", "poll_failures"].some(
+          (key) => storageKey(key) in changes
+        )
+      ) {
+        load();
+      }
+    };
+    browser.storage.onChanged.addListener(handleStorageChange);
+
+    // Keeps the remaining session time moving while Settings is open
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => {
+      browser.storage.onChanged.removeListener(handleStorageChange);
+      clearInterval(timer);
+    };
+  }, []);
+
+  const changeWarningMinutes = async (minutes: number) => {
+    const previous = warningMinutes;
+    try {
+      setWarningMinutes(minutes);
+      await saveTokenExpiryWarningMinutes(minutes);
+      // The next check is scheduled around the warning time
+      sendMessage("FORCE_CHECK").catch(() => {});
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      setWarningMinutes(previous);
+    }
+  };
+
+  const refreshData = async () => {
+    setRefreshing(true);
+    try {
+      await sendMessage("REFRESH_CACHES");
+    } catch (error) {
+      console.error("Error refreshing data:", error);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const describeSession = () => {
+    if (!diagnostics) return "...";
+    if (!diagnostics.signedIn) return "Not signed in";
+    if (diagnostics.tokenExpiresAt === null) return "Expiry unknown";
+    const minutesLeft = getTokenMinutesLeft(diagnostics.tokenExpiresAt, now);
+    if (minutesLeft < 0) return "Expired";
+    return `${formatMinutes(minutesLeft)} left (until ${format(
+      diagnostics.tokenExpiresAt,
+      "dd MMM, h:mm a"
+    )})`;
+  };
+
+  return (
+    <div className="settings-section">
+      <div className="settings-label" style={{ marginBottom: "8px" }}>
+        Diagnostics
+      </div>
+      <div className="settings-description">
+        <div style={rowStyle}>
+          <span>Keka session</span>
+          <span>{describeSession()}</span>
+        </div>
+        <div style={rowStyle}>
+          <span>Last background check</span>
+          <span>
+            {diagnostics?.lastUpdated
+              ? format(diagnostics.lastUpdated, "h:mm a")
+              : "Never"}
+          </span>
+        </div>
+        {!!diagnostics?.pollFailures && (
+          <div style={rowStyle}>
+            <span>Failed checks in a row</span>
+            <span>{diagnostics.pollFailures}</span>
+          </div>
+        )}
+      </div>
+      <button
+        onClick={refreshData}
+        disabled={refreshing}
+        style={{
+          marginTop: "4px",
+          padding: 0,
+          border: "none",
+          background: "transparent",
+          color: "#3b82f6",
+          cursor: "pointer",
+          fontSize: "11px",
+        }}
+      >
+        {refreshing ? "Refreshing..." : "Clear cached data and check now"}
+      </button>
+
+      <div className="settings-row" style={{ marginTop: "12px" }}>
+        <div>
+          <div className="settings-label">Session Expiry Warning</div>
+          <div className="settings-description">
+            Notifies you before the Keka session ends, after first trying to
+            pick up a renewed one from open Keka tabs
+          </div>
+        </div>
+        <select
+          value={warningMinutes}
+          onChange={(e) => changeWarningMinutes(Number(e.target.value))}
+          style={{
+            padding: "6px",
+            borderRadius: "6px",
+            border: "1px solid #e2e8f0",
+            fontSize: "12px",
+            backgroundColor: "#f8fafc",
+            outline: "none",
+          }}
+        >
+          {TOKEN_EXPIRY_WARNING_OPTIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes === 0 ? "Off" : `${formatMinutes(minutes)} before`}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { startOfMonth } from "date-fns";
+import type { WorkPolicy } from "../../../utils/types";
+import { getDayKey } from "../../../utils/period";
+import {
+  buildAttendanceCsv,
+  buildDailyExportRows,
+  buildPunchJson,
+  buildSessionsIcs,
+  downloadFile,
+  loadAttendanceRange,
+  type ExportFormat,
+} from "../../../utils/export";
+
+interface ExportViewProps {
+  accessToken: string | null;
+  workPolicy: WorkPolicy;
+}
+
+const fieldStyle = {
+  flex: 1,
+  padding: "8px",
+  borderRadius: "6px",
+  border: "1px solid #e2e8f0",
+  fontSize: "14px",
+  backgroundColor: "#f8fafc",
+  outline: "none",
+};
+
+const buttonStyle = {
+  flex: 1,
+  padding: "8px 16px",
+  borderRadius: "6px",
+  border: "none",
+  backgroundColor: "#3b82f6",
+  color: "white",
+  cursor: "pointer",
+  fontSize: "14px",
+  fontWeight: 500,
+};
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  ics: "iCalendar",
+};
+
+export default function ExportView({
+  accessToken,
+  workPolicy,
+}: ExportViewProps) {
+  const today = getDayKey();
+  const [fromDay, setFromDay] = useState(getDayKey(startOfMonth(new Date())));
+  const [toDay, setToDay] = useState(today);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [status, setStatus] = useState("");
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (!fromDay || !toDay || fromDay > toDay) {
+      setStatus("Pick a start date on or before the end date.");
+      return;
+    }
+
+    setExporting(exportFormat);
+    setStatus("");
+    try {
+      const { attendanceData, holidayDates } = await loadAttendanceRange(
+        accessToken,
+        fromDay,
+        toDay
+      );
+      const filename = `kivo-attendance-${fromDay}-to-${toDay}`;
+
+      if (exportFormat === "csv") {
+        const rows = buildDailyExportRows(
+          attendanceData,
+          holidayDates,
+          fromDay,
+          toDay,
+          workPolicy
+        );
+        downloadFile(
+          `${filename}.csv`,
+          buildAttendanceCsv(rows),
+          "text/csv;charset=utf-8"
+        );
+        setStatus(`Exported ${rows.length} days.`);
+      } else if (exportFormat === "json") {
+        downloadFile(
+          `${filename}.json`,
+          buildPunchJson(attendanceData, fromDay, toDay),
+          "application/json"
+        );
+        setStatus("Exported punches.");
+      } else {
+        downloadFile(
+          `${filename}.ics`,
+          buildSessionsIcs(attendanceData, fromDay, toDay, workPolicy),
+          "text/calendar;charset=utf-8"
+        );
+        setStatus("Exported work sessions.");
+      }
+    } catch (error) {
+      console.error("Export failed:", error);
+      setStatus("Export failed. Please try again.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="settings-view popup-container">
+      <div className="settings-section">
+        <div className="settings-label">Export Attendance</div>
+        <div className="settings-description" style={{ marginBottom: "12px" }}>
+          Days missing from the local history are fetched from Keka first.
+          Files are saved to your computer only.
+        </div>
+
+        <div style={{ display: "flex", gap: "8px", marginBottom: "12px" }}>
+          <input
+            type="date"
+            value={fromDay}
+            max={toDay || today}
+            onChange={(e) => setFromDay(e.target.value)}
+            style={fieldStyle}
+            title="From"
+          />
+          <input
+            type="date"
+            value={toDay}
+            min={fromDay}
+            max={today}
+            onChange={(e) => setToDay(e.target.value)}
+            style={fieldStyle}
+            title="To"
+          />
+        </div>
+
+        <div style={{ display: "flex", gap: "8px" }}>
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(
+            (exportFormat) => (
+              <button
+                key={exportFormat}
+                onClick={() => handleExport(exportFormat)}
+                disabled={exporting !== null}
+                style={{
+                  ...buttonStyle,
+                  opacity: exporting !== null ? 0.6 : 1,
+                }}
+              >
+                {exporting === exportFormat
+                  ? "Exporting..."
+                  : FORMAT_LABELS[exportFormat]}
+              </button>
+            )
+          )}
+        </div>
+
+        {status && (
+          <div className="settings-description" style={{ marginTop: "8px" }}>
+            {status}
+          </div>
+        )}
+
+        <div className="settings-description" style={{ marginTop: "12px" }}>
+          CSV has one row per day, JSON has every punch and iCalendar has each
+          completed work session as an event.
+        </div>
+      </div>
+    </div>
+  );
+}
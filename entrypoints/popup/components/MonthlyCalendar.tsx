@@ -0,0 +1,109 @@
+import { useState, useMemo } from "react";
+import { format, getDay, parseISO } from "date-fns";
+import type {
+  AttendanceData,
+  MonthlyCalendarDay,
+  WorkPolicy,
+} from "../../../utils/types";
+import {
+  calculateTimePairsAndBreaks,
+  formatMinutes,
+} from "../../../utils/calculations";
+import TimeEntriesList from "./TimeEntriesList";
+
+interface MonthlyCalendarProps {
+  days: MonthlyCalendarDay[];
+  attendanceData: AttendanceData[];
+  workPolicy: WorkPolicy;
+}
+
+const WEEKDAY_LABELS = ["M", "T", "W", "T", "F", "S", "S"];
+
+export default function MonthlyCalendar({
+  days,
+  attendanceData,
+  workPolicy,
+}: MonthlyCalendarProps) {
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const selected = days.find((day) => day.date === selectedDay) ?? null;
+  const { timePairs, breaks, unpairedInEntry } = useMemo(
+    () =>
+      selected
+        ? calculateTimePairsAndBreaks(attendanceData, workPolicy, selected.date)
+        : { timePairs: [], breaks: [], unpairedInEntry: null },
+    [selected, attendanceData, workPolicy]
+  );
+
+  if (days.length === 0) {
+    return null;
+  }
+
+  // Weeks start on Monday, so pad the first row up to the month's first weekday
+  const leadingBlanks = (getDay(parseISO(days[0].date)) + 6) % 7;
+
+  return (
+    <div className="attendance-list monthly-calendar">
+      <h3 className="list-title">Calendar</h3>
+      <div className="calendar-grid">
+        {WEEKDAY_LABELS.map((label, index) => (
+          <div key={`label-${index}`} className="calendar-weekday">
+            {label}
+          </div>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, index) => (
+          <div key={`blank-${index}`} />
+        ))}
+        {days.map((day) => (
+          <button
+            key={day.date}
+            className={`calendar-day ${day.status ? `status-${day.status}` : ""} ${
+              day.isWeekend || day.isHoliday ? "off-day" : ""
+            } ${day.isToday ? "today" : ""} ${
+              day.date === selectedDay ? "selected" : ""
+            }`}
+            disabled={day.isFuture}
+            onClick={() =>
+              setSelectedDay(day.date === selectedDay ? null : day.date)
+            }
+            title={
+              day.workedMinutes > 0
+                ? `${format(parseISO(day.date), "EEE, dd MMM")} · ${formatMinutes(day.workedMinutes)}`
+                : format(parseISO(day.date), "EEE, dd MMM")
+            }
+          >
+            {format(parseISO(day.date), "d")}
+            {day.isHoliday && <span className="calendar-badge holiday">H</span>}
+            {!day.isHoliday && day.leaveDays > 0 && (
+              <span className="calendar-badge leave">
+                {day.leaveDays < 1 ? "½" : "L"}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="calendar-detail">
+          <div className="holidays-label">
+            {format(parseISO(selected.date), "EEEE, dd MMM")} ·{" "}
+            {formatMinutes(selected.workedMinutes)} worked
+            {selected.isHoliday && " · Holiday"}
+            {selected.leaveDays > 0 &&
+              ` · ${selected.leaveDays < 1 ? "Half day leave" : "Leave"}`}
+          </div>
+          {timePairs.length === 0 && !unpairedInEntry ? (
+            <p className="no-data">No punches for this day</p>
+          ) : (
+            <TimeEntriesList
+              timePairs={timePairs}
+              breaks={breaks}
+              unpairedInEntry={unpairedInEntry}
+              title="Punches"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,28 @@
-import { format, subMonths, startOfMonth } from "date-fns";
+import {
+  format,
+  subMonths,
+  startOfMonth,
+  endOfMonth,
+  isSameMonth,
+} from "date-fns";
 import pluralize from "pluralize";
+import type {
+  AttendanceData,
+  DayPlan,
+  DayPlans,
+  MonthlyCalendarDay,
+  PunchAnomaly,
+  WorkPolicy,
+} from "../../../utils/types";
+import { getDayKey } from "../../../utils/period";
+import AttendanceAnomalies from "./AttendanceAnomalies";
+import DayPlanner from "./DayPlanner";
+import MonthlyCalendar from "./MonthlyCalendar";
 
 interface MonthlyOverviewProps {
   loading: boolean;
+  // Why fresh data couldn't be loaded from Keka
+  error: string | null;
   totalWorkingDays: number | null;
   currentWorkingDay: number | null;
   remainingWorkingDays: number | null;
@@ -10,12 +30,19 @@ interface MonthlyOverviewProps {
   hoursNeededPerDay: number | null;
   holidaysCount: number;
   leaveDaysCount: number;
+  anomalies: PunchAnomaly[];
+  calendarDays: MonthlyCalendarDay[];
+  attendanceData: AttendanceData[];
+  workPolicy: WorkPolicy;
   selectedMonth: Date;
   onMonthChange: (date: Date) => void;
+  plans: DayPlans;
+  onSetPlan: (day: string, plan: DayPlan | null) => void;
 }
 
 export default function MonthlyOverview({
   loading,
+  error,
   totalWorkingDays,
   currentWorkingDay,
   remainingWorkingDays,
@@ -23,8 +50,14 @@ export default function MonthlyOverview({
   hoursNeededPerDay,
   holidaysCount,
   leaveDaysCount,
+  anomalies,
+  calendarDays,
+  attendanceData,
+  workPolicy,
   selectedMonth,
   onMonthChange,
+  plans,
+  onSetPlan,
 }: MonthlyOverviewProps) {
   const months = Array.from({ length: 12 }, (_, i) => {
     const d = subMonths(new Date(), i);
@@ -68,8 +101,10 @@ export default function MonthlyOverview({
         </div>
       </div>
 
+      {error && totalWorkingDays !== null && <p className="error">{error}</p>}
+
       {totalWorkingDays === null && !loading ? (
-        <p className="no-data">Unable to load monthly data</p>
+        <p className="no-data">{error || "Unable to load monthly data"}</p>
       ) : (
         <div className="monthly-content">
           <div className="monthly-cards-row">
@@ -118,6 +153,11 @@ export default function MonthlyOverview({
               </div>
             </div>
           </div>
+          <MonthlyCalendar
+            days={calendarDays}
+            attendanceData={attendanceData}
+            workPolicy={workPolicy}
+          />
           {holidaysCount > 0 && (
             <div className="holidays-info">
               <div className="holidays-label">
@@ -132,6 +172,15 @@ export default function MonthlyOverview({
               </div>
             </div>
           )}
+          {isSameMonth(selectedMonth, new Date()) && (
+            <DayPlanner
+              plans={plans}
+              rangeStart={getDayKey(startOfMonth(selectedMonth))}
+              rangeEnd={getDayKey(endOfMonth(selectedMonth))}
+              onSetPlan={onSetPlan}
+            />
+          )}
+          <AttendanceAnomalies anomalies={anomalies} />
         </div>
       )}
     </div>
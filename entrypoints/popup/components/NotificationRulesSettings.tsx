@@ -0,0 +1,374 @@
+import { useState } from "react";
+import { browser } from "wxt/browser";
+import type {
+  NotificationRule,
+  RuleContext,
+  RuleMetric,
+} from "../../../utils/types";
+import { formatMinutes } from "../../../utils/calculations";
+import {
+  DEFAULT_NOTIFICATION_RULES,
+  RULE_METRIC_LABELS,
+  RULE_PLACEHOLDERS,
+  renderRuleTemplate,
+} from "../../../utils/rules";
+import { MANAGED_LOCK_NOTE } from "../../../utils/managed";
+
+interface NotificationRulesSettingsProps {
+  rules: NotificationRule[];
+  onChange: (rules: NotificationRule[]) => Promise<void>;
+  ruleContext: RuleContext;
+  // Rules pushed by organisation policy can be tested but not changed
+  locked?: boolean;
+}
+
+const fieldStyle = {
+  width: "100%",
+  boxSizing: "border-box" as const,
+  padding: "6px",
+  borderRadius: "6px",
+  border: "1px solid #e2e8f0",
+  fontSize: "12px",
+  backgroundColor: "#f8fafc",
+  outline: "none",
+};
+
+const linkButtonStyle = {
+  padding: 0,
+  border: "none",
+  background: "transparent",
+  color: "#3b82f6",
+  cursor: "pointer",
+  fontSize: "11px",
+};
+
+const toClockTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}:${String(
+    minutes % 60
+  ).padStart(2, "0")}`;
+
+const fromClockTime = (value: string): number | null => {
+  const [h, m] = value.split(":").map((part) => parseInt(part, 10));
+  return Number.isNaN(h) ? null : h * 60 + (m || 0);
+};
+
+const formatBound = (metric: RuleMetric, value: number) =>
+  metric === "timeOfDay" ? toClockTime(value) : formatMinutes(value);
+
+const describeRule = (rule: NotificationRule) => {
+  const parts = [RULE_METRIC_LABELS[rule.metric]];
+  if (rule.min !== null) parts.push(`≥ ${formatBound(rule.metric, rule.min)}`);
+  if (rule.max !== null) parts.push(`≤ ${formatBound(rule.metric, rule.max)}`);
+  parts.push(
+    rule.repeatEveryMinutes
+      ? `every ${formatMinutes(rule.repeatEveryMinutes)}`
+      : "once a day"
+  );
+  if (rule.requireClockedIn) parts.push("while clocked in");
+  return parts.join(" · ");
+};
+
+const createRule = (): NotificationRule => ({
+  id: `custom-${Date.now()}`,
+  name: "New rule",
+  enabled: true,
+  metric: "worked",
+  min: 60,
+  max: null,
+  requireClockedIn: true,
+  repeatEveryMinutes: null,
+  title: "Kivo",
+  message: "You've worked {worked} so far.",
+});
+
+export default function NotificationRulesSettings({
+  rules,
+  onChange,
+  ruleContext,
+  locked = false,
+}: NotificationRulesSettingsProps) {
+  const [draft, setDraft] = useState<NotificationRule | null>(null);
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const exists = rules.some((rule) => rule.id === draft.id);
+    await onChange(
+      exists
+        ? rules.map((rule) => (rule.id === draft.id ? draft : rule))
+        : [...rules, draft]
+    );
+    setDraft(null);
+  };
+
+  const toggleRule = (id: string) =>
+    onChange(
+      rules.map((rule) =>
+        rule.id === id ? { ...rule, enabled: !rule.enabled } : rule
+      )
+    );
+
+  const removeRule = (id: string) =>
+    onChange(rules.filter((rule) => rule.id !== id));
+
+  // Test notifications bypass the enable switch and the once-a-day state
+  const testRule = async (rule: NotificationRule) => {
+    try {
+      await browser.notifications.create({
+        type: "basic",
+        iconUrl: "icon/128.png",
+        title: renderRuleTemplate(rule.title, ruleContext),
+        message: renderRuleTemplate(rule.message, ruleContext),
+      });
+    } catch (error) {
+      console.error("Error showing test notification:", error);
+    }
+  };
+
+  const renderBoundInput = (key: "min" | "max") => {
+    if (!draft) return null;
+    const value = draft[key];
+    if (draft.metric === "timeOfDay") {
+      return (
+        <input
+          type="time"
+          value={value === null ? "" : toClockTime(value)}
+          onChange={(e) =>
+            setDraft({ ...draft, [key]: fromClockTime(e.target.value) })
+          }
+          style={fieldStyle}
+        />
+      );
+    }
+    return (
+      <input
+        type="number"
+        placeholder="—"
+        value={value === null ? "" : value}
+        onChange={(e) =>
+          setDraft({
+            ...draft,
+            [key]: e.target.value === "" ? null : parseInt(e.target.value, 10),
+          })
+        }
+        style={fieldStyle}
+      />
+    );
+  };
+
+  return (
+    <div className="settings-section">
+      <div className="settings-label">Notification Rules</div>
+      <div className="settings-description" style={{ marginBottom: "12px" }}>
+        When to notify and what to say. Values are in minutes.
+      </div>
+      {locked && (
+        <div className="settings-managed-note" style={{ marginBottom: "12px" }}>
+          🔒 {MANAGED_LOCK_NOTE}
+        </div>
+      )}
+
+      {rules.map((rule) =>
+        draft?.id === rule.id ? null : (
+          <div
+            key={rule.id}
+            className="settings-row"
+            style={{ marginBottom: "10px" }}
+          >
+            <div style={{ minWidth: 0 }}>
+              <div
+                className="settings-label"
+                style={{
+                  fontSize: "12px",
+                  color: rule.enabled ? "#374151" : "#9ca3af",
+                }}
+              >
+                {rule.name}
+              </div>
+              <div className="settings-description">{describeRule(rule)}</div>
+              <div style={{ display: "flex", gap: "8px", marginTop: "2px" }}>
+                {!locked && (
+                  <button
+                    onClick={() => setDraft(rule)}
+                    style={linkButtonStyle}
+                  >
+                    Edit
+                  </button>
+                )}
+                <button onClick={() => testRule(rule)} style={linkButtonStyle}>
+                  Test
+                </button>
+                {!locked && (
+                  <button
+                    onClick={() => removeRule(rule.id)}
+                    style={{ ...linkButtonStyle, color: "#b91c1c" }}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="toggle-wrapper">
+              <label className="toggle-label">
+                <input
+                  type="checkbox"
+                  className="toggle-switch"
+                  checked={rule.enabled}
+                  onChange={() => toggleRule(rule.id)}
+                  disabled={locked}
+                />
+              </label>
+            </div>
+          </div>
+        )
+      )}
+
+      {draft && (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: "6px",
+            padding: "10px",
+            marginBottom: "10px",
+            borderRadius: "6px",
+            border: "1px solid #e2e8f0",
+          }}
+        >
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Rule name"
+            style={fieldStyle}
+          />
+          <select
+            value={draft.metric}
+            onChange={(e) =>
+              setDraft({ ...draft, metric: e.target.value as RuleMetric })
+            }
+            style={fieldStyle}
+          >
+            {(Object.keys(RULE_METRIC_LABELS) as RuleMetric[]).map((metric) => (
+              <option key={metric} value={metric}>
+                {RULE_METRIC_LABELS[metric]}
+              </option>
+            ))}
+          </select>
+          <div style={{ display: "flex", gap: "6px" }}>
+            <div style={{ flex: 1 }}>
+              <div className="settings-description">At least</div>
+              {renderBoundInput("min")}
+            </div>
+            <div style={{ flex: 1 }}>
+              <div className="settings-description">At most</div>
+              {renderBoundInput("max")}
+            </div>
+            <div style={{ flex: 1 }}>
+              <div className="settings-description">Repeat every</div>
+              <input
+                type="number"
+                min={0}
+                placeholder="once"
+                value={draft.repeatEveryMinutes ?? ""}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    repeatEveryMinutes:
+                      parseInt(e.target.value, 10) > 0
+                        ? parseInt(e.target.value, 10)
+                        : null,
+                  })
+                }
+                style={fieldStyle}
+              />
+            </div>
+          </div>
+          <label
+            className="settings-description"
+            style={{ display: "flex", alignItems: "center", gap: "6px" }}
+          >
+            <input
+              type="checkbox"
+              checked={draft.requireClockedIn}
+              onChange={(e) =>
+                setDraft({ ...draft, requireClockedIn: e.target.checked })
+              }
+            />
+            Only while clocked in
+          </label>
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            placeholder="Title"
+            style={fieldStyle}
+          />
+          <textarea
+            value={draft.message}
+            onChange={(e) => setDraft({ ...draft, message: e.target.value })}
+            placeholder="Message"
+            rows={3}
+            style={{ ...fieldStyle, resize: "vertical" }}
+          />
+          <div className="settings-description">
+            Placeholders: {RULE_PLACEHOLDERS.join(" ")}
+          </div>
+          <div style={{ display: "flex", gap: "8px" }}>
+            <button onClick={saveDraft} style={linkButtonStyle}>
+              Save
+            </button>
+            <button onClick={() => testRule(draft)} style={linkButtonStyle}>
+              Test
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              style={{ ...linkButtonStyle, color: "#6b7280" }}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!locked && (
+        <div style={{ display: "flex", gap: "8px", marginTop: "12px" }}>
+          <button
+            onClick={() => setDraft(createRule())}
+            disabled={draft !== null}
+            style={{
+              flex: 1,
+              padding: "8px 16px",
+              borderRadius: "6px",
+              border: "none",
+              backgroundColor: "#3b82f6",
+              color: "white",
+              cursor: "pointer",
+              fontSize: "14px",
+              fontWeight: 500,
+            }}
+          >
+            Add Rule
+          </button>
+          <button
+            onClick={() => {
+              setDraft(null);
+              onChange(DEFAULT_NOTIFICATION_RULES);
+            }}
+            style={{
+              padding: "8px 16px",
+              borderRadius: "6px",
+              border: "1px solid #e2e8f0",
+              backgroundColor: "#ffffff",
+              color: "#374151",
+              cursor: "pointer",
+              fontSize: "14px",
+              fontWeight: 500,
+            }}
+          >
+            Restore Defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import type { Profile } from "../../../utils/types";
+
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitch: (profileId: string) => void;
+}
+
+export default function ProfileSwitcher({
+  profiles,
+  activeProfileId,
+  onSwitch,
+}: ProfileSwitcherProps) {
+  // Nothing to switch between until a second account is added in Settings
+  if (profiles.length < 2) return null;
+
+  return (
+    <select
+      className="profile-switcher"
+      value={activeProfileId}
+      onChange={(e) => onSwitch(e.target.value)}
+      title="Switch Keka account"
+    >
+      {profiles.map((profile) => (
+        <option key={profile.id} value={profile.id}>
+          {profile.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import type { Profile } from "../../../utils/types";
+import { DEFAULT_PROFILE_ID } from "../../../utils/profiles";
+import { MANAGED_LOCK_NOTE } from "../../../utils/managed";
+
+interface ProfilesSettingsProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onAdd: (name: string, domain: string) => Promise<Profile>;
+  onRename: (profileId: string, name: string) => Promise<void>;
+  onRemove: (profileId: string) => Promise<void>;
+  // Domain organisation policy pins for every account, if any
+  managedDomain: string | null;
+}
+
+const fieldStyle = {
+  flex: 1,
+  minWidth: 0,
+  padding: "8px",
+  borderRadius: "6px",
+  border: "1px solid #e2e8f0",
+  fontSize: "14px",
+  backgroundColor: "#f8fafc",
+  outline: "none",
+};
+
+const linkStyle = {
+  padding: 0,
+  border: "none",
+  background: "transparent",
+  color: "#3b82f6",
+  cursor: "pointer",
+  fontSize: "11px",
+};
+
+export default function ProfilesSettings({
+  profiles,
+  activeProfileId,
+  onAdd,
+  onRename,
+  onRemove,
+  managedDomain,
+}: ProfilesSettingsProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [name, setName] = useState("");
+  const [subdomain, setSubdomain] = useState("");
+  const [message, setMessage] = useState("");
+
+  const handleRename = async () => {
+    if (!editingId) return;
+    await onRename(editingId, editingName);
+    setEditingId(null);
+  };
+
+  const handleRemove = async (profile: Profile) => {
+    if (
+      !window.confirm(
+        `Remove "${profile.name}"? Its login, settings and history on this device are deleted.`
+      )
+    ) {
+      return;
+    }
+    await onRemove(profile.id);
+  };
+
+  const canAdd = managedDomain !== null || !!subdomain.trim();
+
+  const handleAdd = async () => {
+    if (!canAdd) return;
+    try {
+      const profile = await onAdd(
+        name,
+        managedDomain ?? `${subdomain.trim()}.keka.com`
+      );
+      setName("");
+      setSubdomain("");
+      setMessage(
+        `Added ${profile.name}. Log in to it in a tab, then switch to it from the header.`
+      );
+    } catch (error) {
+      console.error("Error adding profile:", error);
+      setMessage("Couldn't add the account.");
+    }
+  };
+
+  return (
+    <div className="settings-section">
+      <div className="settings-label">Keka Accounts</div>
+      <div className="settings-description" style={{ marginBottom: "8px" }}>
+        Each account has its own login, work policy and history, and is
+        checked in the background even when not shown. Sync and backup only
+        cover the first account.
+      </div>
+
+      {profiles.map((profile) => (
+        <div
+          key={profile.id}
+          className="settings-row"
+          style={{ marginBottom: "8px" }}
+        >
+          {editingId === profile.id ? (
+            <div style={{ display: "flex", gap: "8px", flex: 1 }}>
+              <input
+                type="text"
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                style={fieldStyle}
+                autoFocus
+              />
+              <button onClick={handleRename} style={linkStyle}>
+                Save
+              </button>
+              <button onClick={() => setEditingId(null)} style={linkStyle}>
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="settings-description">
+                {profile.name}
+                {profile.id === activeProfileId && " (shown)"}
+              </div>
+              <div style={{ display: "flex", gap: "8px" }}>
+                <button
+                  onClick={() => {
+                    setEditingId(profile.id);
+                    setEditingName(profile.name);
+                  }}
+                  style={linkStyle}
+                >
+                  Rename
+                </button>
+                {/* The first account holds the original setup and stays */}
+                {profile.id !== DEFAULT_PROFILE_ID && (
+                  <button
+                    onClick={() => handleRemove(profile)}
+                    style={{ ...linkStyle, color: "#ef4444" }}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+
+      <div style={{ display: "flex", gap: "8px", marginTop: "8px" }}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          style={fieldStyle}
+        />
+        {managedDomain === null && (
+          <>
+            <input
+              type="text"
+              value={subdomain}
+              onChange={(e) => setSubdomain(e.target.value)}
+              placeholder="subdomain"
+              style={fieldStyle}
+            />
+            <span
+              className="settings-description"
+              style={{ alignSelf: "center" }}
+            >
+              .keka.com
+            </span>
+          </>
+        )}
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          style={{
+            padding: "8px 12px",
+            borderRadius: "6px",
+            border: "none",
+            backgroundColor: "#3b82f6",
+            color: "white",
+            cursor: "pointer",
+            fontSize: "14px",
+            fontWeight: 500,
+            opacity: canAdd ? 1 : 0.6,
+          }}
+        >
+          Add
+        </button>
+      </div>
+      {managedDomain !== null && (
+        <div className="settings-managed-note">
+          🔒 New accounts use {managedDomain} ({MANAGED_LOCK_NOTE.toLowerCase()})
+        </div>
+      )}
+      {message && (
+        <div className="settings-description" style={{ marginTop: "8px" }}>
+          {message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState, useEffect } from "react";
+import { browser } from "wxt/browser";
+import type { WorkPolicy } from "../../../utils/types";
+import { fetchAttendanceSummary, punchAttendance } from "../../../utils/api";
+import { calculateMinutesFromAttendance } from "../../../utils/calculations";
+import { describeApiError } from "../../../utils/errors";
+import { sendMessage } from "../../../utils/messages";
+
+interface PunchButtonProps {
+  accessToken: string | null;
+  isClockedIn: boolean;
+  workPolicy: WorkPolicy;
+}
+
+export default function PunchButton({
+  accessToken,
+  isClockedIn,
+  workPolicy,
+}: PunchButtonProps) {
+  const [enabled, setEnabled] = useState(false);
+  // Clocked-in state read from Keka when the punch was requested; null until then
+  const [confirmedClockedIn, setConfirmedClockedIn] = useState<boolean | null>(
+    null
+  );
+  const [checking, setChecking] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSetting = async () => {
+      const { web_punch_enabled } = await browser.storage.local.get(
+        "web_punch_enabled"
+      );
+      setEnabled(web_punch_enabled === true);
+    };
+    loadSetting();
+
+    const handleStorageChange = (
+      changes: Record<string, any>,
+      areaName: string
+    ) => {
+      if (areaName === "local" && changes.web_punch_enabled) {
+        setEnabled(changes.web_punch_enabled.newValue === true);
+      }
+    };
+    browser.storage.onChanged.addListener(handleStorageChange);
+    return () => browser.storage.onChanged.removeListener(handleStorageChange);
+  }, []);
+
+  // Reset any pending confirmation when the status flips underneath us
+  useEffect(() => {
+    setConfirmedClockedIn(null);
+  }, [isClockedIn]);
+
+  if (!enabled || !accessToken) {
+    return null;
+  }
+
+  const confirming = confirmedClockedIn !== null;
+  const label = (confirming ? confirmedClockedIn : isClockedIn) ? "Out" : "In";
+
+  // The stored status can be half an hour old, and the user may have punched on Keka's site
+  // or phone since, so the direction comes from today's attendance rather than the popup
+  const requestPunch = async () => {
+    setChecking(true);
+    setError(null);
+    try {
+      const attendanceData = await fetchAttendanceSummary(accessToken);
+      setConfirmedClockedIn(
+        calculateMinutesFromAttendance(attendanceData ?? [], workPolicy)
+          .isClockedIn
+      );
+    } catch (err) {
+      console.error("Failed to read punch status:", err);
+      setError(describeApiError(err));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handlePunch = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await punchAttendance(accessToken, confirmedClockedIn ? 1 : 0);
+      // Refresh background metrics immediately so the badge and totals update
+      await sendMessage("FORCE_CHECK").catch(() => {});
+    } catch (err) {
+      console.error("Failed to punch:", err);
+      setError(`Punch ${label} failed`);
+    } finally {
+      setSubmitting(false);
+      setConfirmedClockedIn(null);
+    }
+  };
+
+  if (confirming) {
+    return (
+      <div className="punch-confirm">
+        <span>Punch {label}?</span>
+        <button
+          className="punch-confirm-button"
+          onClick={handlePunch}
+          disabled={submitting}
+          title={`Confirm punch ${label.toLowerCase()} in Keka`}
+        >
+          {submitting ? "…" : "✓"}
+        </button>
+        <button
+          className="punch-confirm-button cancel"
+          onClick={() => setConfirmedClockedIn(null)}
+          disabled={submitting}
+          title="Cancel"
+        >
+          ✕
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      className={`punch-button ${isClockedIn ? "punch-out" : "punch-in"}`}
+      onClick={requestPunch}
+      disabled={checking}
+      title={error || `Punch ${label.toLowerCase()} in Keka`}
+    >
+      {error ? "⚠️ " : ""}
+      {checking ? "…" : label}
+    </button>
+  );
+}
@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import type { ResponseFormatIssue } from "../../../utils/types";
+import { KEKA_ENDPOINT_LABELS } from "../../../utils/validation";
+import { sendMessage } from "../../../utils/messages";
+
+interface ResponseFormatNoticeProps {
+  issue: ResponseFormatIssue;
+}
+
+// Shown in place of the affected tab so a changed Keka API doesn't turn into zeros
+export default function ResponseFormatNotice({
+  issue,
+}: ResponseFormatNoticeProps) {
+  const [checking, setChecking] = useState(false);
+
+  const checkAgain = async () => {
+    setChecking(true);
+    try {
+      await sendMessage("REFRESH_CACHES");
+    } catch (error) {
+      console.error("Error refreshing data:", error);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="auth-error-container">
+      <div className="auth-error-icon">⚠️</div>
+      <div className="auth-error-message">Keka response format changed</div>
+      <div className="auth-error-subtext">
+        Kivo couldn't read the {KEKA_ENDPOINT_LABELS[issue.endpoint]} from
+        Keka, so it won't show numbers it can't trust. It will keep checking
+        and recover on its own if Keka reverts the change.
+      </div>
+      <div className="auth-error-subtext" style={{ fontSize: "11px" }}>
+        <code>{issue.field}</code>: {issue.detail} (
+        {format(issue.detectedAt, "dd MMM, h:mm a")})
+      </div>
+      <button
+        className="open-keka-button"
+        onClick={checkAgain}
+        disabled={checking}
+      >
+        {checking ? "Checking..." : "Check Again"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { format } from "date-fns";
+import type { TimePair, Break, TimeEntry } from "../../../utils/types";
+import { formatMinutes } from "../../../utils/calculations";
+
+interface SessionTimelineProps {
+  timePairs: TimePair[];
+  breaks: Break[];
+  unpairedInEntry: TimeEntry | null;
+  totalWorkedMinutes: number;
+  targetMinutes: number;
+  hoursNeededPerDay: number | null;
+  // Past days have no "now" or leave projections
+  live?: boolean;
+}
+
+interface TimelineMarker {
+  key: string;
+  label: string;
+  time: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export default function SessionTimeline({
+  timePairs,
+  breaks,
+  unpairedInEntry,
+  totalWorkedMinutes,
+  targetMinutes,
+  hoursNeededPerDay,
+  live = true,
+}: SessionTimelineProps) {
+  const firstPunch = timePairs[0]?.startTime ?? unpairedInEntry?.actualTimestamp;
+  if (!firstPunch) {
+    return null;
+  }
+
+  const now = new Date();
+  const isClockedIn = live && !!unpairedInEntry;
+
+  // Leave projections only make sense while the clock is running
+  const markers: TimelineMarker[] = live
+    ? [{ key: "now", label: "Now", time: now }]
+    : [];
+  if (isClockedIn && totalWorkedMinutes < targetMinutes) {
+    markers.push({
+      key: "leave",
+      label: "Leave",
+      time: new Date(now.getTime() + (targetMinutes - totalWorkedMinutes) * MINUTE_MS),
+    });
+  }
+  if (isClockedIn && hoursNeededPerDay !== null) {
+    const averageMinutes = Math.floor(hoursNeededPerDay * 60);
+    if (totalWorkedMinutes < averageMinutes) {
+      markers.push({
+        key: "average",
+        label: "Avg",
+        time: new Date(now.getTime() + (averageMinutes - totalWorkedMinutes) * MINUTE_MS),
+      });
+    }
+  }
+
+  const start = new Date(firstPunch).getTime();
+  const end = Math.max(
+    start + MINUTE_MS,
+    ...markers.map((marker) => marker.time.getTime()),
+    ...timePairs.map((pair) => new Date(pair.endTime).getTime())
+  );
+  const toPercent = (time: Date | string) =>
+    ((new Date(time).getTime() - start) / (end - start)) * 100;
+
+  const renderSegment = (
+    key: string,
+    className: string,
+    from: Date | string,
+    to: Date | string,
+    title: string
+  ) => (
+    <div
+      key={key}
+      className={`timeline-segment ${className}`}
+      style={{
+        left: `${toPercent(from)}%`,
+        width: `${Math.max(0.5, toPercent(to) - toPercent(from))}%`,
+      }}
+      title={title}
+    />
+  );
+
+  return (
+    <div className="attendance-list session-timeline">
+      <h3 className="list-title">Timeline</h3>
+      <div className="timeline-track">
+        {timePairs.map((pair, index) =>
+          renderSegment(
+            `work-${index}`,
+            "work",
+            pair.startTime,
+            pair.endTime,
+            `${format(new Date(pair.startTime), "h:mm a")} - ${format(new Date(pair.endTime), "h:mm a")} (${pair.duration})`
+          )
+        )}
+        {breaks.map((breakItem, index) =>
+          renderSegment(
+            `break-${index}`,
+            "break",
+            breakItem.startTime,
+            breakItem.endTime,
+            `Break ${breakItem.duration}`
+          )
+        )}
+        {isClockedIn &&
+          renderSegment(
+            "open",
+            "work open",
+            unpairedInEntry.actualTimestamp,
+            now,
+            `${format(new Date(unpairedInEntry.actualTimestamp), "h:mm a")} - now`
+          )}
+        {markers.map((marker) => (
+          <div
+            key={marker.key}
+            className={`timeline-marker ${marker.key}`}
+            style={{ left: `${toPercent(marker.time)}%` }}
+            title={`${marker.label} ${format(marker.time, "h:mm a")}`}
+          />
+        ))}
+      </div>
+      <div className="timeline-axis">
+        <span>{format(new Date(start), "h:mm a")}</span>
+        <span>{format(new Date(end), "h:mm a")}</span>
+      </div>
+      <div className="timeline-legend">
+        {markers.map((marker) => (
+          <span key={marker.key} className={`timeline-legend-item ${marker.key}`}>
+            {marker.label} {format(marker.time, "h:mm a")}
+          </span>
+        ))}
+        <span className="timeline-legend-item">
+          {formatMinutes(totalWorkedMinutes)} worked
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,64 @@
 import { useState, useEffect } from "react";
 import { browser } from "wxt/browser";
+import type {
+  BadgeMode,
+  ManagedSettings,
+  NotificationRule,
+  Profile,
+  ResolvedDayTarget,
+  RuleContext,
+  WorkPolicy,
+} from "../../../utils/types";
+import { formatMinutes } from "../../../utils/calculations";
+import {
+  BADGE_MODE_STORAGE_KEY,
+  DEFAULT_BADGE_MODE,
+} from "../../../utils/badge";
+import { MANAGED_LOCK_NOTE } from "../../../utils/managed";
+import { resolveProfileStorage } from "../../../utils/profiles";
+import WorkPolicySettings from "./WorkPolicySettings";
+import NotificationRulesSettings from "./NotificationRulesSettings";
+import SettingsBackupSync from "./SettingsBackupSync";
+import ProfilesSettings from "./ProfilesSettings";
+import DiagnosticsSettings from "./DiagnosticsSettings";
+import { sendMessage } from "../../../utils/messages";
 
 interface SettingsProps {
-  isHalfDay: boolean;
-  setIsHalfDay: (value: boolean) => void;
+  dayTarget: ResolvedDayTarget;
+  setHalfDayOverride: (value: boolean) => void;
+  clearHalfDayOverride: () => void;
+  workPolicy: WorkPolicy;
+  onSaveWorkPolicy: (policy: WorkPolicy) => Promise<void>;
+  notificationRules: NotificationRule[];
+  onSaveNotificationRules: (rules: NotificationRule[]) => Promise<void>;
+  ruleContext: RuleContext;
+  managed: ManagedSettings;
+  profiles: Profile[];
+  activeProfileId: string;
+  onAddProfile: (name: string, domain: string) => Promise<Profile>;
+  onRenameProfile: (profileId: string, name: string) => Promise<void>;
+  onRemoveProfile: (profileId: string) => Promise<void>;
 }
 
-export default function Settings({ isHalfDay, setIsHalfDay }: SettingsProps) {
+export default function Settings({
+  dayTarget,
+  setHalfDayOverride,
+  clearHalfDayOverride,
+  workPolicy,
+  onSaveWorkPolicy,
+  notificationRules,
+  onSaveNotificationRules,
+  ruleContext,
+  managed,
+  profiles,
+  activeProfileId,
+  onAddProfile,
+  onRenameProfile,
+  onRemoveProfile,
+}: SettingsProps) {
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
+  const [webPunchEnabled, setWebPunchEnabled] = useState(false);
+  const [badgeMode, setBadgeMode] = useState<BadgeMode>(DEFAULT_BADGE_MODE);
   const [domain, setDomain] = useState("");
   const [loading, setLoading] = useState(true);
   const [saveStatus, setSaveStatus] = useState<string>("");
@@ -15,12 +66,24 @@ export default function Settings({ isHalfDay, setIsHalfDay }: SettingsProps) {
   useEffect(() => {
     const loadSettings = async () => {
       try {
-        const { notifications_enabled, keka_domain } =
-          await browser.storage.local.get([
-            "notifications_enabled",
-            "keka_domain",
-          ]);
+        const { web_punch_enabled } = await browser.storage.local.get(
+          "web_punch_enabled"
+        );
+        // Domain, notifications and badge belong to the account being shown
+        const {
+          keka_domain,
+          notifications_enabled,
+          [BADGE_MODE_STORAGE_KEY]: storedBadgeMode,
+        } = await (await resolveProfileStorage()).get([
+          "keka_domain",
+          "notifications_enabled",
+          BADGE_MODE_STORAGE_KEY,
+        ]);
         setNotificationsEnabled(!!notifications_enabled);
+        setWebPunchEnabled(web_punch_enabled === true);
+        if (storedBadgeMode) {
+          setBadgeMode(storedBadgeMode as BadgeMode);
+        }
         if (keka_domain) {
           setDomain(keka_domain as string);
         }
@@ -35,7 +98,11 @@ export default function Settings({ isHalfDay, setIsHalfDay }: SettingsProps) {
 
   const handleSaveDomain = async () => {
     try {
-      await browser.storage.local.set({ keka_domain: domain });
+      await (await resolveProfileStorage()).set({ keka_domain: domain });
+      // Cached holidays/leave belong to the previous organization
+      sendMessage("REFRESH_CACHES").catch((error) =>
+        console.error("Error refreshing caches:", error)
+      );
       setSaveStatus("Saved!");
       setTimeout(() => setSaveStatus(""), 2000);
     } catch (error) {
@@ -48,7 +115,9 @@ export default function Settings({ isHalfDay, setIsHalfDay }: SettingsProps) {
     try {
       const newState = !notificationsEnabled;
       setNotificationsEnabled(newState);
-      await browser.storage.local.set({ notifications_enabled: newState });
+      await (await resolveProfileStorage()).set({
+        notifications_enabled: newState,
+      });
     } catch (error) {
       console.error("Error saving settings:", error);
       // Revert state on error
@@ -56,6 +125,33 @@ export default function Settings({ isHalfDay, setIsHalfDay }: SettingsProps) {
     }
   };
 
+  const toggleWebPunch = async () => {
+    try {
+      const newState = !webPunchEnabled;
+      setWebPunchEnabled(newState);
+      await browser.storage.local.set({ web_punch_enabled: newState });
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      // Revert state on error
+      setWebPunchEnabled(!webPunchEnabled);
+    }
+  };
+
+  const changeBadgeMode = async (mode: BadgeMode) => {
+    const previous = badgeMode;
+    try {
+      setBadgeMode(mode);
+      await (await resolveProfileStorage()).set({
+        [BADGE_MODE_STORAGE_KEY]: mode,
+      });
+      // Let the background redraw the badge right away
+      sendMessage("FORCE_CHECK").catch(() => {});
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      setBadgeMode(previous);
+    }
+  };
+
   if (loading) {
     return <div className="loading">Loading settings...</div>;
   }
@@ -77,6 +173,7 @@ export default function Settings({ isHalfDay, setIsHalfDay }: SettingsProps) {
               value={domain}
               onChange={(e) => setDomain(e.target.value)}
               placeholder="yourcompany.keka.com"
+              disabled={managed.kekaDomain !== null}
               style={{
                 flex: 1,
                 padding: "8px",
@@ -87,22 +184,27 @@ export default function Settings({ isHalfDay, setIsHalfDay }: SettingsProps) {
                 outline: "none",
               }}
             />
-            <button
-              onClick={handleSaveDomain}
-              style={{
-                padding: "8px 16px",
-                borderRadius: "6px",
-                border: "none",
-                backgroundColor: "#3b82f6",
-                color: "white",
-                cursor: "pointer",
-                fontSize: "14px",
-                fontWeight: 500,
-              }}
-            >
-              {saveStatus || "Save"}
-            </button>
+            {managed.kekaDomain === null && (
+              <button
+                onClick={handleSaveDomain}
+                style={{
+                  padding: "8px 16px",
+                  borderRadius: "6px",
+                  border: "none",
+                  backgroundColor: "#3b82f6",
+                  color: "white",
+                  cursor: "pointer",
+                  fontSize: "14px",
+                  fontWeight: 500,
+                }}
+              >
+                {saveStatus || "Save"}
+              </button>
+            )}
           </div>
+          {managed.kekaDomain !== null && (
+            <div className="settings-managed-note">🔒 {MANAGED_LOCK_NOTE}</div>
+          )}
         </div>
 
         <div className="settings-row" style={{ marginBottom: "16px" }}>
@@ -111,6 +213,11 @@ export default function Settings({ isHalfDay, setIsHalfDay }: SettingsProps) {
             <div className="settings-description">
               Get alerts for targets, breaks, and overtime
             </div>
+            {managed.notificationsEnabled !== null && (
+              <div className="settings-managed-note">
+                🔒 {MANAGED_LOCK_NOTE}
+              </div>
+            )}
           </div>
           <div className="toggle-wrapper">
             <label className="toggle-label">
@@ -119,38 +226,145 @@ export default function Settings({ isHalfDay, setIsHalfDay }: SettingsProps) {
                 className="toggle-switch"
                 checked={notificationsEnabled}
                 onChange={toggleNotifications}
+                disabled={managed.notificationsEnabled !== null}
               />
             </label>
           </div>
         </div>
 
+        <div className="settings-row" style={{ marginBottom: "16px" }}>
+          <div>
+            <div className="settings-label">Toolbar Badge</div>
+            <div className="settings-description">
+              Shown on the extension icon; grey while punched out
+            </div>
+            {managed.badgeMode !== null && (
+              <div className="settings-managed-note">
+                🔒 {MANAGED_LOCK_NOTE}
+              </div>
+            )}
+          </div>
+          <select
+            value={badgeMode}
+            onChange={(e) => changeBadgeMode(e.target.value as BadgeMode)}
+            disabled={managed.badgeMode !== null}
+            style={{
+              padding: "6px",
+              borderRadius: "6px",
+              border: "1px solid #e2e8f0",
+              fontSize: "12px",
+              backgroundColor: "#f8fafc",
+              outline: "none",
+            }}
+          >
+            <option value="remaining">Remaining</option>
+            <option value="worked">Worked</option>
+            <option value="off">Off</option>
+          </select>
+        </div>
+
+        {managed.features.webPunch && (
+          <div className="settings-row" style={{ marginBottom: "16px" }}>
+            <div>
+              <div className="settings-label">Punch From Popup</div>
+              <div className="settings-description">
+                Experimental. Adds an In/Out button next to your status. This
+                records real punches in Keka on your behalf through an
+                undocumented Keka endpoint, so it is off by default. Check the
+                punch on Keka's attendance page the first time you use it.
+              </div>
+            </div>
+            <div className="toggle-wrapper">
+              <label className="toggle-label">
+                <input
+                  type="checkbox"
+                  className="toggle-switch"
+                  checked={webPunchEnabled}
+                  onChange={toggleWebPunch}
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
         <div className="settings-row">
           <div>
             <div className="settings-label">
               Half Day{" "}
-              {isHalfDay && (
+              {dayTarget.isHalfDay && (
                 <>
                   | <b>Enjoy!!</b>
                 </>
               )}
             </div>
             <div className="settings-description">
-              Toggle it on if today is your half day.
+              {dayTarget.source === "leave" &&
+                `Detected from Keka: ${dayTarget.sourceDetail}.`}
+              {dayTarget.source === "default" &&
+                "No half day leave found in Keka for today."}
+              {dayTarget.source === "manual" && "Set manually for today."}{" "}
+              Toggle to override (
+              {formatMinutes(workPolicy.halfDayTargetMinutes)} half day
+              target).
             </div>
+            {dayTarget.source === "manual" && (
+              <button
+                onClick={clearHalfDayOverride}
+                style={{
+                  marginTop: "4px",
+                  padding: 0,
+                  border: "none",
+                  background: "transparent",
+                  color: "#3b82f6",
+                  cursor: "pointer",
+                  fontSize: "11px",
+                }}
+              >
+                Reset to automatic
+              </button>
+            )}
           </div>
           <div className="toggle-wrapper">
             <label className="toggle-label">
               <input
                 type="checkbox"
                 className="toggle-switch"
-                checked={isHalfDay}
-                onChange={(e) => setIsHalfDay(e.target.checked)}
+                checked={dayTarget.isHalfDay}
+                onChange={(e) => setHalfDayOverride(e.target.checked)}
               />
             </label>
           </div>
         </div>
       </div>
 
+      <WorkPolicySettings
+        workPolicy={workPolicy}
+        onSave={onSaveWorkPolicy}
+        lockedFields={
+          Object.keys(managed.workPolicy) as (keyof WorkPolicy)[]
+        }
+      />
+
+      <NotificationRulesSettings
+        rules={notificationRules}
+        onChange={onSaveNotificationRules}
+        ruleContext={ruleContext}
+        locked={managed.notificationRules !== null}
+      />
+
+      <ProfilesSettings
+        profiles={profiles}
+        activeProfileId={activeProfileId}
+        onAdd={onAddProfile}
+        onRename={onRenameProfile}
+        onRemove={onRemoveProfile}
+        managedDomain={managed.kekaDomain}
+      />
+
+      <SettingsBackupSync syncAllowed={managed.features.settingsSync} />
+
+      <DiagnosticsSettings />
+
       {/* Placeholder for future settings */}
       {/* <div className="settings-section">
         <div className="settings-label">About</div>
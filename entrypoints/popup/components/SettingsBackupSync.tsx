@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState } from "react";
+import { browser } from "wxt/browser";
+import { format } from "date-fns";
+import type { SettingsSyncStatus } from "../../../utils/types";
+import { downloadFile } from "../../../utils/export";
+import {
+  SETTINGS_SYNC_ENABLED_KEY,
+  SETTINGS_SYNC_STATUS_KEY,
+  createSettingsBackup,
+  getSettingLabel,
+  getSettingsSyncStatus,
+  isSettingsSyncEnabled,
+  restoreSettingsBackup,
+  setSettingsSyncEnabled,
+} from "../../../utils/settings";
+
+interface SettingsBackupSyncProps {
+  // Organisations can keep settings from leaving the device
+  syncAllowed: boolean;
+}
+
+const buttonStyle = {
+  flex: 1,
+  padding: "8px 16px",
+  borderRadius: "6px",
+  border: "1px solid #e2e8f0",
+  backgroundColor: "#ffffff",
+  color: "#374151",
+  cursor: "pointer",
+  fontSize: "14px",
+  fontWeight: 500,
+};
+
+export default function SettingsBackupSync({
+  syncAllowed,
+}: SettingsBackupSyncProps) {
+  const [syncEnabled, setSyncEnabled] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SettingsSyncStatus | null>(
+    null
+  );
+  const [message, setMessage] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setSyncEnabled(await isSettingsSyncEnabled());
+        setSyncStatus(await getSettingsSyncStatus());
+      } catch (error) {
+        console.error("Error loading sync settings:", error);
+      }
+    };
+    load();
+
+    // The background records every sync run
+    const handleStorageChange = (
+      changes: Record<string, unknown>,
+      areaName: string
+    ) => {
+      if (areaName !== "local") return;
+      if (
+        SETTINGS_SYNC_STATUS_KEY in changes ||
+        SETTINGS_SYNC_ENABLED_KEY in changes
+      ) {
+        load();
+      }
+    };
+    browser.storage.onChanged.addListener(handleStorageChange);
+    return () => browser.storage.onChanged.removeListener(handleStorageChange);
+  }, []);
+
+  const handleExport = async () => {
+    try {
+      const backup = await createSettingsBackup();
+      downloadFile(
+        `kivo-settings-${format(new Date(), "yyyy-MM-dd")}.json`,
+        JSON.stringify(backup, null, 2),
+        "application/json"
+      );
+      setMessage(`Exported ${Object.keys(backup.settings).length} settings.`);
+    } catch (error) {
+      console.error("Error exporting settings:", error);
+      setMessage("Export failed.");
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const keys = await restoreSettingsBackup(JSON.parse(await file.text()));
+      setMessage(`Restored ${keys.length} settings. Reloading...`);
+      // Every section keeps its own copy of the settings, so start fresh
+      setTimeout(() => window.location.reload(), 1000);
+    } catch (error) {
+      console.error("Error importing settings:", error);
+      setMessage(
+        error instanceof SyntaxError
+          ? "That file is not valid JSON."
+          : error instanceof Error
+            ? error.message
+            : "Import failed."
+      );
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const toggleSync = async () => {
+    const newState = !syncEnabled;
+    setSyncEnabled(newState);
+    try {
+      await setSettingsSyncEnabled(newState);
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      setSyncEnabled(!newState);
+    }
+  };
+
+  return (
+    <div className="settings-section">
+      <div className="settings-row" style={{ marginBottom: "16px" }}>
+        <div>
+          <div className="settings-label">Sync Across Devices</div>
+          <div className="settings-description">
+            Keeps settings in your browser account. Your Keka login and
+            attendance history never leave this device. Only the first Keka
+            account's settings are synced.
+          </div>
+          {!syncAllowed && (
+            <div className="settings-managed-note">
+              🔒 Turned off by your organisation
+            </div>
+          )}
+        </div>
+        <div className="toggle-wrapper">
+          <label className="toggle-label">
+            <input
+              type="checkbox"
+              className="toggle-switch"
+              checked={syncEnabled}
+              onChange={toggleSync}
+              disabled={!syncAllowed}
+            />
+          </label>
+        </div>
+      </div>
+
+      {syncEnabled && syncStatus && (
+        <div className="settings-description" style={{ marginBottom: "16px" }}>
+          {syncStatus.error
+            ? `Last sync failed: ${syncStatus.error}`
+            : syncStatus.lastSyncedAt
+              ? `Last synced ${format(syncStatus.lastSyncedAt, "dd MMM, h:mm a")}.`
+              : "Not synced yet."}
+          {syncStatus.conflicts.length > 0 && (
+            <div style={{ marginTop: "4px" }}>
+              Changed on two devices at once (newest edit kept):
+              <ul style={{ margin: "2px 0 0", paddingLeft: "16px" }}>
+                {syncStatus.conflicts.map((conflict) => (
+                  <li key={`${conflict.key}-${conflict.resolvedAt}`}>
+                    {getSettingLabel(conflict.key)} ·{" "}
+                    {conflict.kept === "local"
+                      ? "this device"
+                      : "other device"}{" "}
+                    · {format(conflict.resolvedAt, "dd MMM, h:mm a")}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="settings-label">Backup</div>
+      <div className="settings-description" style={{ marginBottom: "8px" }}>
+        Save your settings to a file, or restore them after a reinstall.
+        Settings for extra Keka accounts are not included.
+      </div>
+      <div style={{ display: "flex", gap: "8px" }}>
+        <button onClick={handleExport} style={buttonStyle}>
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          style={buttonStyle}
+        >
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+      </div>
+      {message && (
+        <div className="settings-description" style={{ marginTop: "8px" }}>
+          {message}
+        </div>
+      )}
+    </div>
+  );
+}
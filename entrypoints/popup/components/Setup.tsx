@@ -1,6 +1,11 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { browser } from "wxt/browser";
 import confetti from "canvas-confetti";
+import {
+  hasSyncedSettings,
+  restoreSettingsBackup,
+  setSettingsSyncEnabled,
+} from "../../../utils/settings";
 
 interface SetupProps {
   onComplete: () => void;
@@ -10,6 +15,57 @@ export default function Setup({ onComplete }: SetupProps) {
   const [subdomain, setSubdomain] = useState("");
   const [enableNotifications, setEnableNotifications] = useState(true);
   const [loading, setLoading] = useState(false);
+  const [syncAvailable, setSyncAvailable] = useState(false);
+  const [restoreError, setRestoreError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    hasSyncedSettings()
+      .then(setSyncAvailable)
+      .catch(() => setSyncAvailable(false));
+  }, []);
+
+  // Restored settings only finish Setup when they include a domain
+  const completeIfConfigured = async () => {
+    const { keka_domain } = await browser.storage.local.get("keka_domain");
+    if (keka_domain) {
+      onComplete();
+    } else {
+      setRestoreError("The restored settings don't include a Keka domain.");
+    }
+  };
+
+  const handleRestoreFromSync = async () => {
+    setLoading(true);
+    setRestoreError("");
+    try {
+      await setSettingsSyncEnabled(true);
+      await completeIfConfigured();
+    } catch (error) {
+      console.error("Failed to restore synced settings", error);
+      setRestoreError("Couldn't restore settings from your other devices.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestoreFromFile = async (file: File | undefined) => {
+    if (!file) return;
+    setRestoreError("");
+    try {
+      await restoreSettingsBackup(JSON.parse(await file.text()));
+      await completeIfConfigured();
+    } catch (error) {
+      console.error("Failed to restore settings backup", error);
+      setRestoreError(
+        error instanceof Error && !(error instanceof SyntaxError)
+          ? error.message
+          : "That file is not a Kivo settings backup."
+      );
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
 
   const handleSave = async () => {
     if (!subdomain) return;
@@ -133,10 +189,35 @@ export default function Setup({ onComplete }: SetupProps) {
         >
           {loading ? "Setting up..." : "Get Started →"}
         </button>
+
+        {syncAvailable && (
+          <button
+            className="setup-button setup-button-secondary"
+            onClick={handleRestoreFromSync}
+            disabled={loading}
+          >
+            Use settings from my other devices
+          </button>
+        )}
       </div>
 
+      {restoreError && <div className="setup-error">{restoreError}</div>}
+
       <div className="setup-footer">
-        You can change this anytime in Settings
+        You can change this anytime in Settings ·{" "}
+        <button
+          className="setup-link"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Restore from backup
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(e) => handleRestoreFromFile(e.target.files?.[0])}
+        />
       </div>
     </div>
   );
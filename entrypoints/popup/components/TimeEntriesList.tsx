@@ -0,0 +1,71 @@
+import { Fragment } from "react";
+import { format, differenceInMinutes } from "date-fns";
+import type { TimePair, Break, TimeEntry } from "../../../utils/types";
+
+interface TimeEntriesListProps {
+  timePairs: TimePair[];
+  breaks: Break[];
+  unpairedInEntry: TimeEntry | null;
+  title?: string;
+}
+
+export default function TimeEntriesList({
+  timePairs,
+  breaks,
+  unpairedInEntry,
+  title = "Time Entries",
+}: TimeEntriesListProps) {
+  if (timePairs.length === 0 && !unpairedInEntry) {
+    return null;
+  }
+
+  return (
+    <div className="attendance-list">
+      <h3 className="list-title">{title}</h3>
+      <ul>
+        {timePairs.map((pair, index) => (
+          <Fragment key={`pair-${index}`}>
+            <li className="time-entry">
+              <span className="time-range">
+                {format(new Date(pair.startTime), "h:mm a")} -{" "}
+                {format(new Date(pair.endTime), "h:mm a")}
+              </span>
+              <span className="duration">({pair.duration})</span>
+            </li>
+            {breaks[index] && (
+              <li className="break-entry">
+                <span className="time-range">
+                  {format(new Date(breaks[index].startTime), "h:mm a")} to{" "}
+                  {format(new Date(breaks[index].endTime), "h:mm a")}
+                </span>
+                <span className="break-duration">
+                  → {breaks[index].duration}
+                </span>
+              </li>
+            )}
+          </Fragment>
+        ))}
+        {unpairedInEntry && (
+          <li className="time-entry not-logged-out">
+            <span className="time-range">
+              {format(new Date(unpairedInEntry.actualTimestamp), "h:mm a")}{" "}
+              - not logged out
+            </span>
+            <span className="duration">
+              (
+              {(() => {
+                const startDate = new Date(unpairedInEntry.actualTimestamp);
+                const now = new Date();
+                const totalMinutes = differenceInMinutes(now, startDate);
+                const hours = Math.floor(totalMinutes / 60);
+                const minutes = totalMinutes % 60;
+                return `${hours}h ${minutes}m`;
+              })()}
+              )
+            </span>
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -1,37 +1,46 @@
-import { Fragment } from "react";
-import { format, differenceInMinutes } from "date-fns";
+import { format, parseISO } from "date-fns";
 import type {
   Metrics,
   LeaveTimeInfo,
   TimePair,
   Break,
   TimeEntry,
+  ResolvedDayTarget,
 } from "../../../utils/types";
+import { formatMinutes } from "../../../utils/calculations";
+import { getDayKey } from "../../../utils/period";
+import TimeEntriesList from "./TimeEntriesList";
+import SessionTimeline from "./SessionTimeline";
 
 interface TodayOverviewProps {
   loading: boolean;
   error: string | null;
   metrics: Metrics | null;
-  isHalfDay: boolean;
+  dayTarget: ResolvedDayTarget;
   leaveTimeInfo: LeaveTimeInfo | null;
   timePairs: TimePair[];
   breaks: Break[];
   unpairedInEntry: TimeEntry | null;
+  shiftDay: string;
   totalWorkedMinutes: number;
   hoursNeededPerDay: number | null;
+  // A past day picked with the date stepper: no live projections
+  historical?: boolean;
 }
 
 export default function TodayOverview({
   loading,
   error,
   metrics,
-  isHalfDay,
+  dayTarget,
   leaveTimeInfo,
   timePairs,
   breaks,
   unpairedInEntry,
+  shiftDay,
   totalWorkedMinutes,
   hoursNeededPerDay,
+  historical = false,
 }: TodayOverviewProps) {
   if (loading) {
     return <p className="loading">Loading attendance data...</p>;
@@ -47,6 +56,21 @@ export default function TodayOverview({
 
   return (
     <>
+      {!historical && shiftDay !== getDayKey() && (
+        <div className="holidays-info" style={{ marginBottom: "12px" }}>
+          <div className="holidays-label">
+            Showing shift started {format(parseISO(shiftDay), "EEE, dd MMM")}
+          </div>
+        </div>
+      )}
+      {dayTarget.source === "leave" && dayTarget.sourceDetail && (
+        <div className="holidays-info" style={{ marginBottom: "12px" }}>
+          <div className="holidays-label">
+            {dayTarget.sourceDetail} · target{" "}
+            {formatMinutes(dayTarget.targetMinutes)}
+          </div>
+        </div>
+      )}
       <div className="metrics-row">
         <div
           className={`metric-card total-worked-${metrics.totalWorkedStatus}`}
@@ -81,8 +105,14 @@ export default function TodayOverview({
               : ""
           }`}
         >
-          <div className="metric-label">Est. Completion</div>
-          <div className="metric-value">{metrics.estCompletion}</div>
+          <div className="metric-label">
+            {historical ? "Target" : "Est. Completion"}
+          </div>
+          <div className="metric-value">
+            {historical
+              ? formatMinutes(dayTarget.targetMinutes)
+              : metrics.estCompletion}
+          </div>
         </div>
       </div>
       {leaveTimeInfo && (
@@ -91,62 +121,10 @@ export default function TodayOverview({
             <div className="leave-card normal-leave">
               <div className="leave-label">Normal Leave Time</div>
               <div className="leave-sub-label">
-                ({isHalfDay ? "4h 30m" : "8h 15m"})
+                ({formatMinutes(dayTarget.targetMinutes)})
               </div>
               <div className="leave-time">{leaveTimeInfo.normalLeaveTime}</div>
             </div>
-            {/* <div className="leave-card">
-              <div className="leave-label">Early Leave Time</div>
-              <div className="leave-sub-label">
-                ({isHalfDay ? "3h 30m" : "7h"})
-              </div>
-              <div className="leave-time">{leaveTimeInfo.earlyLeaveTime}</div>
-            </div>
-            {hoursNeededPerDay && (
-              <div
-                className="leave-card"
-                style={{ borderColor: "#818cf8", backgroundColor: "#e0e7ff" }}
-              >
-                <div className="leave-label" style={{ color: "#3730a3" }}>
-                  Monthly Avg Target
-                </div>
-                <div className="leave-sub-label" style={{ color: "#4338ca" }}>
-                  (
-                  {(() => {
-                    const h = Math.floor(hoursNeededPerDay);
-                    const m = Math.round((hoursNeededPerDay - h) * 60);
-                    return `${h}h ${m}m`;
-                  })()}
-                  )
-                </div>
-                <div className="leave-time">
-                  {(() => {
-                    const now = new Date();
-                    const targetMinutes = Math.floor(hoursNeededPerDay * 60);
-
-                    if (totalWorkedMinutes >= targetMinutes) {
-                      return "-";
-                    }
-
-                    const remainingMinutes = Math.max(
-                      0,
-                      targetMinutes - totalWorkedMinutes,
-                    );
-                    const leaveTime = new Date(
-                      now.getTime() + remainingMinutes * 60 * 1000,
-                    );
-                    const h = leaveTime.getHours();
-                    const m = leaveTime
-                      .getMinutes()
-                      .toString()
-                      .padStart(2, "0");
-                    const ampm = h >= 12 ? "pm" : "am";
-                    const h12 = h > 12 ? h - 12 : h === 0 ? 12 : h;
-                    return `${h12}:${m} ${ampm}`;
-                  })()}
-                </div>
-              </div>
-            )} */}
             {hoursNeededPerDay && (
               <div
                 className="leave-card"
@@ -196,55 +174,20 @@ export default function TodayOverview({
         </div>
       )}
 
-      {(timePairs.length > 0 || unpairedInEntry) && (
-        <div className="attendance-list">
-          <h3 className="list-title">Time Entries</h3>
-          <ul>
-            {timePairs.map((pair, index) => (
-              <Fragment key={`pair-${index}`}>
-                <li className="time-entry">
-                  <span className="time-range">
-                    {format(new Date(pair.startTime), "h:mm a")} -{" "}
-                    {format(new Date(pair.endTime), "h:mm a")}
-                  </span>
-                  <span className="duration">({pair.duration})</span>
-                </li>
-                {breaks[index] && (
-                  <li className="break-entry">
-                    <span className="time-range">
-                      {format(new Date(breaks[index].startTime), "h:mm a")} to{" "}
-                      {format(new Date(breaks[index].endTime), "h:mm a")}
-                    </span>
-                    <span className="break-duration">
-                      → {breaks[index].duration}
-                    </span>
-                  </li>
-                )}
-              </Fragment>
-            ))}
-            {unpairedInEntry && (
-              <li className="time-entry not-logged-out">
-                <span className="time-range">
-                  {format(new Date(unpairedInEntry.actualTimestamp), "h:mm a")}{" "}
-                  - not logged out
-                </span>
-                <span className="duration">
-                  (
-                  {(() => {
-                    const startDate = new Date(unpairedInEntry.actualTimestamp);
-                    const now = new Date();
-                    const totalMinutes = differenceInMinutes(now, startDate);
-                    const hours = Math.floor(totalMinutes / 60);
-                    const minutes = totalMinutes % 60;
-                    return `${hours}h ${minutes}m`;
-                  })()}
-                  )
-                </span>
-              </li>
-            )}
-          </ul>
-        </div>
-      )}
+      <SessionTimeline
+        timePairs={timePairs}
+        breaks={breaks}
+        unpairedInEntry={unpairedInEntry}
+        totalWorkedMinutes={totalWorkedMinutes}
+        targetMinutes={dayTarget.targetMinutes}
+        hoursNeededPerDay={hoursNeededPerDay}
+        live={!historical}
+      />
+      <TimeEntriesList
+        timePairs={timePairs}
+        breaks={breaks}
+        unpairedInEntry={unpairedInEntry}
+      />
     </>
   );
 }
@@ -0,0 +1,86 @@
+import { format, parseISO } from "date-fns";
+import type { WeeklyDayStats } from "../../../utils/types";
+import { formatMinutes } from "../../../utils/calculations";
+
+interface WeeklyDayBreakdownProps {
+  days: WeeklyDayStats[];
+}
+
+const getDayTag = (day: WeeklyDayStats) => {
+  if (day.isHoliday) return "Holiday";
+  if (day.isLeave) return "Leave";
+  if (day.isPlanned) return "Planned";
+  return null;
+};
+
+const formatDifference = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `${minutes >= 0 ? "+" : "-"}${formatMinutes(Math.abs(minutes))}`;
+};
+
+export default function WeeklyDayBreakdown({ days }: WeeklyDayBreakdownProps) {
+  if (days.length === 0) {
+    return null;
+  }
+
+  // Bars share one scale so days can be compared against each other
+  const scale = Math.max(
+    1,
+    ...days.map((day) => Math.max(day.workedHours, day.targetHours))
+  );
+
+  return (
+    <div className="attendance-list day-breakdown">
+      <h3 className="list-title">Day by Day</h3>
+      <ul>
+        {days.map((day) => {
+          const tag = getDayTag(day);
+          const hasResult = !day.isFuture && (day.targetHours > 0 || day.workedHours > 0);
+          const difference = day.workedHours - day.targetHours;
+          const barStatus =
+            day.targetHours > 0 && day.workedHours >= day.targetHours
+              ? "green"
+              : "yellow";
+
+          return (
+            <li
+              key={day.date}
+              className={`day-breakdown-row ${
+                day.isWeekend || day.isHoliday ? "off-day" : ""
+              } ${day.isLeave ? "leave-day" : ""} ${day.isToday ? "today" : ""}`}
+            >
+              <span className="day-breakdown-label">
+                {format(parseISO(day.date), "EEE dd")}
+              </span>
+              <div
+                className="day-breakdown-bar"
+                title={`Target ${formatMinutes(day.targetHours * 60)}`}
+              >
+                <div
+                  className={`day-breakdown-fill ${barStatus}`}
+                  style={{ width: `${(day.workedHours / scale) * 100}%` }}
+                />
+                {day.targetHours > 0 && (
+                  <div
+                    className="day-breakdown-target"
+                    style={{ left: `${(day.targetHours / scale) * 100}%` }}
+                  />
+                )}
+              </div>
+              <span className="day-breakdown-worked">
+                {day.workedHours > 0 ? formatMinutes(day.workedHours * 60) : "—"}
+              </span>
+              <span
+                className={`day-breakdown-diff ${
+                  hasResult ? (difference >= 0 ? "surplus" : "deficit") : ""
+                }`}
+              >
+                {tag ?? (hasResult ? formatDifference(difference) : "")}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
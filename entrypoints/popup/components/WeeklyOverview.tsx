@@ -7,9 +7,15 @@ import {
   subWeeks,
   isSameWeek,
 } from "date-fns";
+import { WEEK_OPTIONS, getDayKey } from "../../../utils/period";
+import type { DayPlan, DayPlans, WeeklyDayStats } from "../../../utils/types";
+import DayPlanner from "./DayPlanner";
+import WeeklyDayBreakdown from "./WeeklyDayBreakdown";
 
 interface WeeklyOverviewProps {
   loading: boolean;
+  // Why fresh data couldn't be loaded from Keka
+  error: string | null;
   weeklyTarget: number;
   totalWorked: number;
   remaining: number;
@@ -20,12 +26,16 @@ interface WeeklyOverviewProps {
   totalWorkingDays: number | null;
   currentWorkingDay: number | null;
   remainingWorkingDays: number | null;
+  days: WeeklyDayStats[];
   selectedDate: Date;
   onDateChange: (date: Date) => void;
+  plans: DayPlans;
+  onSetPlan: (day: string, plan: DayPlan | null) => void;
 }
 
 export default function WeeklyOverview({
   loading,
+  error,
   weeklyTarget,
   totalWorked,
   remaining,
@@ -36,8 +46,11 @@ export default function WeeklyOverview({
   totalWorkingDays,
   currentWorkingDay,
   remainingWorkingDays,
+  days,
   selectedDate,
   onDateChange,
+  plans,
+  onSetPlan,
 }: WeeklyOverviewProps) {
   // Format hours helper
   const formatHours = (val: number) => {
@@ -46,11 +59,9 @@ export default function WeeklyOverview({
     return `${h}h ${m}m`;
   };
 
-  const weekStart = startOfWeek(selectedDate, { weekStartsOn: 1 });
-  const weekEnd = endOfWeek(selectedDate, { weekStartsOn: 1 });
-  const isCurrentWeek = isSameWeek(selectedDate, new Date(), {
-    weekStartsOn: 1,
-  });
+  const weekStart = startOfWeek(selectedDate, WEEK_OPTIONS);
+  const weekEnd = endOfWeek(selectedDate, WEEK_OPTIONS);
+  const isCurrentWeek = isSameWeek(selectedDate, new Date(), WEEK_OPTIONS);
 
   const handlePrevWeek = () => {
     onDateChange(subWeeks(selectedDate, 1));
@@ -108,6 +119,8 @@ export default function WeeklyOverview({
         </div>
       </div>
 
+      {error && !loading && <p className="error">{error}</p>}
+
       {loading ? (
         <p className="loading">Loading weekly data...</p>
       ) : (
@@ -172,6 +185,8 @@ export default function WeeklyOverview({
             </div>
           </div>
 
+          <WeeklyDayBreakdown days={days} />
+
           {remainingWorkingDays !== null && remainingWorkingDays > 0 && (
             <div className="holidays-info">
               <div className="holidays-label">
@@ -195,6 +210,14 @@ export default function WeeklyOverview({
               </div>
             </div>
           )}
+          {isCurrentWeek && (
+            <DayPlanner
+              plans={plans}
+              rangeStart={getDayKey(weekStart)}
+              rangeEnd={getDayKey(weekEnd)}
+              onSetPlan={onSetPlan}
+            />
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import type { WorkPolicy } from "../../../utils/types";
+import { DEFAULT_WORK_POLICY } from "../../../utils/policy";
+import { MANAGED_LOCK_NOTE } from "../../../utils/managed";
+
+interface WorkPolicySettingsProps {
+  workPolicy: WorkPolicy;
+  onSave: (policy: WorkPolicy) => Promise<void>;
+  // Fields pinned by organisation policy
+  lockedFields?: (keyof WorkPolicy)[];
+}
+
+const POLICY_FIELDS: {
+  key: keyof WorkPolicy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    key: "dailyTargetMinutes",
+    label: "Daily Target",
+    description: "Hours needed on a full working day",
+  },
+  {
+    key: "dailyMaxAcceptableMinutes",
+    label: "Daily Max",
+    description: "Worked time above this is shown as red",
+  },
+  {
+    key: "earlyLeaveMinutes",
+    label: "Early Leave",
+    description: "Minimum hours before leaving early",
+  },
+  {
+    key: "halfDayTargetMinutes",
+    label: "Half Day Target",
+    description: "Hours needed on a half day",
+  },
+  {
+    key: "halfDayMaxAcceptableMinutes",
+    label: "Half Day Max",
+    description: "Worked time above this is shown as red on a half day",
+  },
+  {
+    key: "halfDayEarlyLeaveMinutes",
+    label: "Half Day Early Leave",
+    description: "Minimum hours before leaving early on a half day",
+  },
+  {
+    key: "longSessionAlertMinutes",
+    label: "Long Session Alert",
+    description: "Notify when clocked in for longer than this",
+  },
+  {
+    key: "shiftDayStartMinutes",
+    label: "Shift Day Starts",
+    description: "Time after midnight when a new day begins for night shifts",
+  },
+  {
+    key: "maxSessionMinutes",
+    label: "Max Session",
+    description: "Longer In/Out gaps are treated as a missed punch",
+  },
+  {
+    key: "workHoursStartMinutes",
+    label: "Working Hours Start",
+    description: "Time of day (24h) when frequent attendance checks begin",
+  },
+  {
+    key: "workHoursEndMinutes",
+    label: "Working Hours End",
+    description: "Time of day (24h) after which checks slow down while punched out",
+  },
+];
+
+const inputStyle = {
+  width: "44px",
+  padding: "6px",
+  borderRadius: "6px",
+  border: "1px solid #e2e8f0",
+  fontSize: "12px",
+  backgroundColor: "#f8fafc",
+  outline: "none",
+  textAlign: "right" as const,
+};
+
+export default function WorkPolicySettings({
+  workPolicy,
+  onSave,
+  lockedFields = [],
+}: WorkPolicySettingsProps) {
+  const [draft, setDraft] = useState<WorkPolicy>(workPolicy);
+  const [saveStatus, setSaveStatus] = useState<string>("");
+
+  useEffect(() => {
+    setDraft(workPolicy);
+  }, [workPolicy]);
+
+  const updateField = (
+    key: keyof WorkPolicy,
+    part: "hours" | "minutes",
+    value: string
+  ) => {
+    const parsed = Math.max(0, parseInt(value, 10) || 0);
+    setDraft((prev) => {
+      const hours = Math.floor(prev[key] / 60);
+      const minutes = prev[key] % 60;
+      const total =
+        part === "hours" ? parsed * 60 + minutes : hours * 60 + Math.min(59, parsed);
+      return { ...prev, [key]: total };
+    });
+  };
+
+  // Reset only touches the fields the user is allowed to change
+  const handleReset = () => {
+    const reset = { ...DEFAULT_WORK_POLICY };
+    lockedFields.forEach((key) => {
+      reset[key] = workPolicy[key];
+    });
+    setDraft(reset);
+  };
+
+  const handleSave = async () => {
+    try {
+      await onSave(draft);
+      setSaveStatus("Saved!");
+      setTimeout(() => setSaveStatus(""), 2000);
+    } catch (error) {
+      console.error("Error saving work policy:", error);
+      setSaveStatus("Error saving");
+    }
+  };
+
+  return (
+    <div className="settings-section">
+      <div className="settings-label">Work Policy</div>
+      <div className="settings-description" style={{ marginBottom: "12px" }}>
+        Targets used for metrics, notifications and averages
+      </div>
+      {lockedFields.length > 0 && (
+        <div className="settings-managed-note" style={{ marginBottom: "12px" }}>
+          🔒 Locked fields are {MANAGED_LOCK_NOTE.toLowerCase()}
+        </div>
+      )}
+
+      {POLICY_FIELDS.map((field) => (
+        <div
+          key={field.key}
+          className="settings-row"
+          style={{ marginBottom: "10px" }}
+        >
+          <div>
+            <div className="settings-label" style={{ fontSize: "12px" }}>
+              {field.label}
+            </div>
+            <div className="settings-description">{field.description}</div>
+          </div>
+          <div style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+            <input
+              type="number"
+              min={0}
+              value={Math.floor(draft[field.key] / 60)}
+              onChange={(e) => updateField(field.key, "hours", e.target.value)}
+              disabled={lockedFields.includes(field.key)}
+              title={
+                lockedFields.includes(field.key) ? MANAGED_LOCK_NOTE : undefined
+              }
+              style={inputStyle}
+            />
+            <span className="settings-description">h</span>
+            <input
+              type="number"
+              min={0}
+              max={59}
+              value={draft[field.key] % 60}
+              onChange={(e) =>
+                updateField(field.key, "minutes", e.target.value)
+              }
+              disabled={lockedFields.includes(field.key)}
+              title={
+                lockedFields.includes(field.key) ? MANAGED_LOCK_NOTE : undefined
+              }
+              style={inputStyle}
+            />
+            <span className="settings-description">m</span>
+          </div>
+        </div>
+      ))}
+
+      <div style={{ display: "flex", gap: "8px", marginTop: "12px" }}>
+        <button
+          onClick={handleSave}
+          style={{
+            flex: 1,
+            padding: "8px 16px",
+            borderRadius: "6px",
+            border: "none",
+            backgroundColor: "#3b82f6",
+            color: "white",
+            cursor: "pointer",
+            fontSize: "14px",
+            fontWeight: 500,
+          }}
+        >
+          {saveStatus || "Save Policy"}
+        </button>
+        <button
+          onClick={handleReset}
+          style={{
+            padding: "8px 16px",
+            borderRadius: "6px",
+            border: "1px solid #e2e8f0",
+            backgroundColor: "#ffffff",
+            color: "#374151",
+            cursor: "pointer",
+            fontSize: "14px",
+            fontWeight: 500,
+          }}
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
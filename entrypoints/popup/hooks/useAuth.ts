@@ -1,5 +1,7 @@
 import { useState, useEffect } from "react";
 import { browser } from "wxt/browser";
+import { getActiveProfileId, getProfileStorage } from "../../../utils/profiles";
+import { sendMessage } from "../../../utils/messages";
 
 interface UseAuthResult {
     accessToken: string | null;
@@ -13,16 +15,22 @@ export const useAuth = (): UseAuthResult => {
     const [error, setError] = useState<string | null>(null);
 
     useEffect(() => {
+        // The popup reloads on a profile switch, so the profile is resolved once
+        const profileIdPromise = getActiveProfileId();
+        let storageKey = (key: string) => key;
+
         const initializeAuth = async () => {
             try {
-                const storedToken = await browser.storage.local.get("access_token");
+                const storage = getProfileStorage(await profileIdPromise);
+                storageKey = storage.key;
+                const storedToken = await storage.get("access_token");
 
                 if (storedToken.access_token) {
                     setAccessToken(storedToken.access_token as string);
                     setLoading(false);
                 }
 
-                const { keka_domain } = await browser.storage.local.get("keka_domain");
+                const { keka_domain } = await storage.get("keka_domain");
 
                 if (!keka_domain) {
                     setLoading(false);
@@ -32,6 +40,7 @@ export const useAuth = (): UseAuthResult => {
                 const domain = keka_domain as string;
                 const hostname = domain.replace(/^https?:\/\//, '').replace(/\/$/, '');
 
+                // The content script pushes new tokens on its own; this covers Keka tabs opened before it was injected
                 const kekaTabs = await browser.tabs.query({
                     url: [
                         `*://${hostname}/*`,
@@ -60,9 +69,9 @@ export const useAuth = (): UseAuthResult => {
                                 // If it's different (or we didn't have one), update storage/state
                                 if (token !== storedToken.access_token) {
                                     setAccessToken(token);
-                                    await browser.storage.local.set({ access_token: token });
+                                    await storage.set({ access_token: token });
                                     // Trigger immediate check now that we have a fresh token
-                                    browser.runtime.sendMessage({ type: "FORCE_CHECK" }).catch(() => { });
+                                    sendMessage("FORCE_CHECK").catch(() => { });
                                 }
                             }
                         } catch (scriptError) {
@@ -100,8 +109,9 @@ export const useAuth = (): UseAuthResult => {
         // Listen for token updates from background script
         const handleStorageChange = (changes: Record<string, any>, areaName: string) => {
             if (areaName === "local") {
-                if (changes.access_token) {
-                    const newToken = changes.access_token.newValue;
+                const tokenChange = changes[storageKey("access_token")];
+                if (tokenChange) {
+                    const newToken = tokenChange.newValue;
                     setAccessToken(newToken || null);
 
                     // If token was removed/cleared, re-run auth check to show error or finding logical
@@ -111,7 +121,7 @@ export const useAuth = (): UseAuthResult => {
                 }
 
                 // Also re-initialize if domain changes (e.g. from setup)
-                if (changes.keka_domain) {
+                if (changes[storageKey("keka_domain")]) {
                     initializeAuth();
                 }
             }
@@ -1,7 +1,10 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { browser } from "wxt/browser";
-import type { Metrics, LeaveTimeInfo, TimePair, Break, TimeEntry, AttendanceData } from "../../../utils/types";
-import { generateMetricsFromMinutes, calculateLeaveTimeInfo, calculateTimePairsAndBreaks } from "../../../utils/calculations";
+import type { Metrics, LeaveTimeInfo, TimePair, Break, TimeEntry, AttendanceData, WorkPolicy, ResolvedDayTarget } from "../../../utils/types";
+import { generateMetricsFromMinutes, calculateLeaveTimeInfo, calculateTimePairsAndBreaks, getCurrentShiftDay, findAttendanceDay } from "../../../utils/calculations";
+import { resolveDayTarget } from "../../../utils/policy";
+import { resolveProfileStorage } from "../../../utils/profiles";
+import { sendMessage } from "../../../utils/messages";
 
 interface UseCurrentMetricsResult {
     metrics: Metrics | null;
@@ -11,12 +14,14 @@ interface UseCurrentMetricsResult {
     timePairs: TimePair[];
     breaks: Break[];
     unpairedInEntry: TimeEntry | null;
+    shiftDay: string;
+    dayTarget: ResolvedDayTarget;
     loading: boolean;
     error: string | null;
     refreshMetrics: () => void;
 }
 
-export const useCurrentMetrics = (isHalfDay: boolean): UseCurrentMetricsResult => {
+export const useCurrentMetrics = (halfDayOverride: boolean | null, workPolicy: WorkPolicy): UseCurrentMetricsResult => {
     // Stored values (source of truth from background)
     const [storedMetrics, setStoredMetrics] = useState<Metrics | null>(null);
     const [storedAttendanceData, setStoredAttendanceData] = useState<AttendanceData[]>([]);
@@ -36,30 +41,23 @@ export const useCurrentMetrics = (isHalfDay: boolean): UseCurrentMetricsResult =
 
     const loadCurrentMetrics = async () => {
         try {
-            const storedData = await browser.storage.local.get([
-                'current_metrics',
-                'current_total_worked_minutes',
-                'current_is_clocked_in',
-                'current_leave_time_info',
-                'attendance_data',
-                'last_updated'
-            ]);
-
-            if (storedData.current_metrics) {
-                setStoredMetrics(storedData.current_metrics as Metrics);
-                setStoredAttendanceData((storedData.attendance_data as AttendanceData[]) || []);
-                setStoredTotalMinutes((storedData.current_total_worked_minutes as number) || 0);
-                setIsClockedIn(!!(storedData.current_is_clocked_in as boolean));
-                setLastUpdated((storedData.last_updated as number) || Date.now());
+            const status = await sendMessage('GET_STATUS');
+
+            if (status.metrics) {
+                setStoredMetrics(status.metrics);
+                setStoredAttendanceData(status.attendanceData);
+                setStoredTotalMinutes(status.totalWorkedMinutes);
+                setIsClockedIn(status.isClockedIn);
+                setLastUpdated(status.lastUpdated || Date.now());
 
                 // Check if data is quite old (stale)
-                const lastUpdatedTime = storedData.last_updated as number;
+                const lastUpdatedTime = status.lastUpdated;
                 if (lastUpdatedTime && Date.now() - lastUpdatedTime > 5 * 60 * 1000) {
-                    browser.runtime.sendMessage({ type: 'FORCE_CHECK' }).catch(() => { });
+                    sendMessage("FORCE_CHECK").catch(() => { });
                 }
             } else {
                 // No metrics found, force a check
-                browser.runtime.sendMessage({ type: 'FORCE_CHECK' }).catch(() => { });
+                sendMessage("FORCE_CHECK").catch(() => { });
             }
         } catch (error) {
             console.error("Error loading metrics:", error);
@@ -73,8 +71,10 @@ export const useCurrentMetrics = (isHalfDay: boolean): UseCurrentMetricsResult =
     useEffect(() => {
         loadCurrentMetrics();
 
-        const handleStorageChange = (changes: any) => {
-            if (changes.current_metrics || changes.last_updated) {
+        // Other profiles' checks write under their own prefix and are ignored here
+        const handleStorageChange = async (changes: any) => {
+            const storage = await resolveProfileStorage();
+            if (changes[storage.key('current_metrics')] || changes[storage.key('last_updated')]) {
                 loadCurrentMetrics();
             }
         };
@@ -85,6 +85,16 @@ export const useCurrentMetrics = (isHalfDay: boolean): UseCurrentMetricsResult =
         };
     }, []);
 
+    // Current shift day and its target (manual override, else leave applied in Keka, else policy)
+    const shiftDay = useMemo(
+        () => getCurrentShiftDay(storedAttendanceData, workPolicy),
+        [storedAttendanceData, workPolicy]
+    );
+    const dayTarget = useMemo(
+        () => resolveDayTarget(findAttendanceDay(storedAttendanceData, shiftDay), halfDayOverride, workPolicy),
+        [storedAttendanceData, shiftDay, halfDayOverride, workPolicy]
+    );
+
     // Live update logic
     useEffect(() => {
         const updateLiveMetrics = () => {
@@ -103,8 +113,8 @@ export const useCurrentMetrics = (isHalfDay: boolean): UseCurrentMetricsResult =
             // But for smoother UI (if we show seconds later), we might want to run this often.
             // For now, minutes resolution is fine.
 
-            const newMetrics = generateMetricsFromMinutes(currentMinutes, isHalfDay, isClockedIn);
-            const newLeaveInfo = calculateLeaveTimeInfo(currentMinutes, isHalfDay);
+            const newMetrics = generateMetricsFromMinutes(currentMinutes, dayTarget, isClockedIn);
+            const newLeaveInfo = calculateLeaveTimeInfo(currentMinutes, dayTarget);
 
             setLiveMetrics(newMetrics);
             setLiveTotalMinutes(currentMinutes);
@@ -124,10 +134,10 @@ export const useCurrentMetrics = (isHalfDay: boolean): UseCurrentMetricsResult =
         return () => {
             if (timerRef.current) clearInterval(timerRef.current);
         };
-    }, [storedMetrics, storedTotalMinutes, isClockedIn, lastUpdated, isHalfDay]);
+    }, [storedMetrics, storedTotalMinutes, isClockedIn, lastUpdated, dayTarget]);
 
-    // Calculate pairs and breaks from stored attendance data
-    const { timePairs, breaks, unpairedInEntry } = calculateTimePairsAndBreaks(storedAttendanceData);
+    // Calculate pairs and breaks for the current shift day from stored attendance data
+    const { timePairs, breaks, unpairedInEntry } = calculateTimePairsAndBreaks(storedAttendanceData, workPolicy, shiftDay);
 
     return {
         metrics: liveMetrics,
@@ -137,6 +147,8 @@ export const useCurrentMetrics = (isHalfDay: boolean): UseCurrentMetricsResult =
         timePairs,
         breaks,
         unpairedInEntry,
+        shiftDay,
+        dayTarget,
         loading,
         error,
         refreshMetrics: loadCurrentMetrics
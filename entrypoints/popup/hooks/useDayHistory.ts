@@ -0,0 +1,120 @@
+import { useState, useEffect } from "react";
+import { addDays, format, parseISO, subDays } from "date-fns";
+import type { AttendanceData, Metrics, ResolvedDayTarget, TimePair, Break, TimeEntry, WorkPolicy } from "../../../utils/types";
+import { fetchAttendanceSummary } from "../../../utils/api";
+import { archiveAttendanceDays, getArchivedAttendance } from "../../../utils/archive";
+import {
+    calculateMinutesFromAttendance,
+    calculateTimePairsAndBreaks,
+    findAttendanceDay,
+    generateMetricsFromMinutes,
+} from "../../../utils/calculations";
+import { resolveDayTarget } from "../../../utils/policy";
+import { getHalfDayKey } from "../../../utils/period";
+import { resolveProfileStorage } from "../../../utils/profiles";
+import { describeApiError } from "../../../utils/errors";
+
+interface DayHistory {
+    metrics: Metrics | null;
+    totalWorkedMinutes: number;
+    dayTarget: ResolvedDayTarget | null;
+    timePairs: TimePair[];
+    breaks: Break[];
+    unpairedInEntry: TimeEntry | null;
+    loading: boolean;
+    error: string | null;
+}
+
+const EMPTY_HISTORY: DayHistory = {
+    metrics: null,
+    totalWorkedMinutes: 0,
+    dayTarget: null,
+    timePairs: [],
+    breaks: [],
+    unpairedInEntry: null,
+    loading: false,
+    error: null,
+};
+
+// Read-only view of a past day for the Today tab. Never touches the background's current_* state.
+export const useDayHistory = (accessToken: string | null, day: string | null, workPolicy: WorkPolicy) => {
+    const [history, setHistory] = useState<DayHistory>(EMPTY_HISTORY);
+
+    useEffect(() => {
+        if (!day) {
+            setHistory(EMPTY_HISTORY);
+            return;
+        }
+
+        let cancelled = false;
+
+        const loadDay = async () => {
+            setHistory({ ...EMPTY_HISTORY, loading: true });
+
+            try {
+                // Neighbouring days are needed to stitch sessions that cross midnight
+                const fromDay = format(subDays(parseISO(day), 1), "yyyy-MM-dd");
+                const toDay = format(addDays(parseISO(day), 1), "yyyy-MM-dd");
+
+                let attendanceData: AttendanceData[] = [];
+                try {
+                    attendanceData = await getArchivedAttendance(fromDay, toDay);
+                } catch (e) {
+                    console.error("Failed to read attendance archive", e);
+                }
+
+                if (!findAttendanceDay(attendanceData, day) && accessToken) {
+                    const fetched = await fetchAttendanceSummary(accessToken, day);
+                    if (fetched) {
+                        attendanceData = fetched;
+                        archiveAttendanceDays(fetched).catch((e) => console.error("Failed to archive attendance", e));
+                    }
+                }
+
+                const attendanceDay = findAttendanceDay(attendanceData, day);
+                if (!attendanceDay) {
+                    throw new Error("No attendance data for this day");
+                }
+
+                // Respect a half day that was set manually for that date
+                const halfDayKey = getHalfDayKey(day);
+                const { [halfDayKey]: halfDayValue } = await (await resolveProfileStorage()).get(halfDayKey);
+                const dayTarget = resolveDayTarget(
+                    attendanceDay,
+                    typeof halfDayValue === "boolean" ? halfDayValue : null,
+                    workPolicy
+                );
+
+                const { totalWorkedMinutes } = calculateMinutesFromAttendance(attendanceData, workPolicy, day);
+                const { timePairs, breaks, unpairedInEntry } = calculateTimePairsAndBreaks(attendanceData, workPolicy, day);
+
+                if (!cancelled) {
+                    setHistory({
+                        metrics: generateMetricsFromMinutes(totalWorkedMinutes, dayTarget, false),
+                        totalWorkedMinutes,
+                        dayTarget,
+                        timePairs,
+                        breaks,
+                        unpairedInEntry,
+                        loading: false,
+                        error: null,
+                    });
+                }
+            } catch (err) {
+                if (!cancelled) {
+                    setHistory({
+                        ...EMPTY_HISTORY,
+                        error: describeApiError(err),
+                    });
+                }
+            }
+        };
+
+        loadDay();
+        return () => {
+            cancelled = true;
+        };
+    }, [accessToken, day, workPolicy]);
+
+    return history;
+};
@@ -0,0 +1,57 @@
+import { useState, useEffect } from "react";
+import { browser } from "wxt/browser";
+import type { DayPlan, DayPlans } from "../../../utils/types";
+import {
+    DAY_PLANS_STORAGE_KEY,
+    getDayPlans,
+    normalizeDayPlans,
+    saveDayPlans,
+} from "../../../utils/plans";
+import { resolveProfileStorage } from "../../../utils/profiles";
+
+// Planned half days / leaves / custom targets for upcoming days, keyed by yyyy-MM-dd
+export const useDayPlans = () => {
+    const [plans, setPlans] = useState<DayPlans>({});
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        const loadPlans = async () => {
+            try {
+                setPlans(await getDayPlans());
+            } catch (err) {
+                console.error("Error loading day plans:", err);
+            } finally {
+                setIsLoaded(true);
+            }
+        };
+        loadPlans();
+
+        const handleStorageChange = async (changes: Record<string, any>, areaName: string) => {
+            if (areaName !== "local") return;
+            const plansKey = (await resolveProfileStorage()).key(DAY_PLANS_STORAGE_KEY);
+            if (changes[plansKey]) {
+                setPlans(normalizeDayPlans(changes[plansKey].newValue));
+            }
+        };
+        browser.storage.onChanged.addListener(handleStorageChange);
+        return () => browser.storage.onChanged.removeListener(handleStorageChange);
+    }, []);
+
+    // Pass null to remove the plan for a day
+    const setDayPlan = async (day: string, plan: DayPlan | null) => {
+        const next = { ...plans };
+        if (plan) {
+            next[day] = plan;
+        } else {
+            delete next[day];
+        }
+        setPlans(next);
+        try {
+            await saveDayPlans(next);
+        } catch (err) {
+            console.error("Error saving day plans:", err);
+        }
+    };
+
+    return { plans, isLoaded, setDayPlan };
+};
@@ -1,45 +1,44 @@
 import { useState, useEffect } from "react";
-import { browser } from "wxt/browser";
+import { sendMessage } from "../../../utils/messages";
 
+// Manual half-day override for today. null means "automatic" (derived from Keka leave data).
+// It applies to the shift day the background is tracking, which owns the stored flag.
 export const useHalfDay = () => {
-    const [isHalfDay, setIsHalfDay] = useState(false);
+    const [halfDayOverride, setHalfDayOverrideState] = useState<boolean | null>(null);
     const [isLoaded, setIsLoaded] = useState(false);
 
     useEffect(() => {
         const loadHalfDayState = async () => {
             try {
-                const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
-                const key = `halfDay_${today}`;
-                const result = await browser.storage.local.get(key);
-                if (result[key] !== undefined) {
-                    setIsHalfDay(!!result[key]);
-                }
-                setIsLoaded(true);
+                const { halfDayOverride } = await sendMessage("GET_STATUS");
+                setHalfDayOverrideState(halfDayOverride);
             } catch (err) {
                 console.error("Error loading half day state:", err);
+            } finally {
                 setIsLoaded(true);
             }
         };
         loadHalfDayState();
     }, []);
 
-    useEffect(() => {
-        if (!isLoaded) return;
+    // The background recalculates targets and notifications after saving
+    const setHalfDayOverride = async (value: boolean) => {
+        setHalfDayOverrideState(value);
+        try {
+            await sendMessage("SET_HALF_DAY", { value });
+        } catch (err) {
+            console.error("Error saving half day state:", err);
+        }
+    };
 
-        const saveHalfDayState = async () => {
-            try {
-                const today = new Date().toISOString().split("T")[0];
-                const key = `halfDay_${today}`;
-                await browser.storage.local.set({ [key]: isHalfDay });
-                // Notify background to update calculations if needed
-                // browser.runtime.sendMessage({ type: 'FORCE_CHECK' }); 
-                // Ideally we should tell background to re-check
-            } catch (err) {
-                console.error("Error saving half day state:", err);
-            }
-        };
-        saveHalfDayState();
-    }, [isHalfDay, isLoaded]);
+    const clearHalfDayOverride = async () => {
+        setHalfDayOverrideState(null);
+        try {
+            await sendMessage("SET_HALF_DAY", { value: null });
+        } catch (err) {
+            console.error("Error clearing half day state:", err);
+        }
+    };
 
-    return { isHalfDay, setIsHalfDay };
+    return { halfDayOverride, isLoaded, setHalfDayOverride, clearHalfDayOverride };
 };
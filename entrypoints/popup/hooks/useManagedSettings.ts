@@ -0,0 +1,34 @@
+import { useState, useEffect } from "react";
+import { browser } from "wxt/browser";
+import type { ManagedSettings } from "../../../utils/types";
+import { EMPTY_MANAGED_SETTINGS, getManagedSettings } from "../../../utils/managed";
+
+// Organisation policy from managed storage; empty when the browser isn't managed
+export const useManagedSettings = () => {
+    const [managed, setManaged] = useState<ManagedSettings>(EMPTY_MANAGED_SETTINGS);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        const loadManagedSettings = async () => {
+            try {
+                setManaged(await getManagedSettings());
+            } catch (err) {
+                console.error("Error loading managed settings:", err);
+            } finally {
+                setIsLoaded(true);
+            }
+        };
+        loadManagedSettings();
+
+        // Policies can be pushed while the popup is open
+        const handleStorageChange = (_changes: Record<string, any>, areaName: string) => {
+            if (areaName === "managed") {
+                loadManagedSettings();
+            }
+        };
+        browser.storage.onChanged.addListener(handleStorageChange);
+        return () => browser.storage.onChanged.removeListener(handleStorageChange);
+    }, []);
+
+    return { managed, isLoaded };
+};
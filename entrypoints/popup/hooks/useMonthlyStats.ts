@@ -1,7 +1,14 @@
 import { useState, useEffect } from "react";
-import { format, isSameMonth, startOfMonth, endOfMonth } from "date-fns";
-import { fetchAttendanceSummary, fetchHolidays, fetchLeaveSummary, fetchRangeStats } from "../../../utils/api";
-import { processMonthlyStats } from "../../../utils/calculations";
+import { format, isSameMonth, startOfMonth, endOfMonth, parseISO } from "date-fns";
+import { fetchAttendanceSummary, fetchRangeStats } from "../../../utils/api";
+import { getCachedHolidays, getCachedLeaveSummary } from "../../../utils/cache";
+import { parseHoursMinutes } from "../../../utils/validation";
+import { describeApiError, isApiErrorKind } from "../../../utils/errors";
+import { archiveAttendanceDays, getArchivedAttendance, getArchivedSnapshot } from "../../../utils/archive";
+import { getDayKey } from "../../../utils/period";
+import { buildMonthlyCalendar, processMonthlyStats } from "../../../utils/calculations";
+import { detectPunchAnomalies } from "../../../utils/anomalies";
+import type { AttendanceData, DayPlans, HolidayResponse, LeaveResponse, MonthlyCalendarDay, PunchAnomaly, WorkPolicy } from "../../../utils/types";
 
 interface MonthlyStats {
     holidays: string[];
@@ -11,10 +18,14 @@ interface MonthlyStats {
     remainingWorkingDays: number | null;
     averageHours: number | null;
     hoursNeededPerDay: number | null;
+    anomalies: PunchAnomaly[];
+    calendarDays: MonthlyCalendarDay[];
+    attendanceData: AttendanceData[];
     loading: boolean;
+    error: string | null;
 }
 
-export const useMonthlyStats = (accessToken: string | null, selectedDate: Date) => {
+export const useMonthlyStats = (accessToken: string | null, selectedDate: Date, workPolicy: WorkPolicy, plans: DayPlans) => {
     const [stats, setStats] = useState<MonthlyStats>({
         holidays: [],
         leaveDaysCount: 0,
@@ -23,47 +34,89 @@ export const useMonthlyStats = (accessToken: string | null, selectedDate: Date)
         remainingWorkingDays: null,
         averageHours: null,
         hoursNeededPerDay: null,
+        anomalies: [],
+        calendarDays: [],
+        attendanceData: [],
         loading: false,
+        error: null,
     });
 
     useEffect(() => {
         const loadStats = async () => {
-            if (!accessToken) return;
+            const dateStr = format(selectedDate, "yyyy-MM-dd");
+            const isCurrentMonth = isSameMonth(selectedDate, new Date());
 
-            setStats((prev) => ({ ...prev, loading: true }));
+            // Basic processing using existing logic
+            const buildStats = (attendanceData: AttendanceData[], holidaysData: HolidayResponse | null, leaveData: LeaveResponse | null): MonthlyStats => {
+                const processed = processMonthlyStats(attendanceData, holidaysData, leaveData, selectedDate, workPolicy, plans);
+                return {
+                    holidays: processed.holidayDates,
+                    leaveDaysCount: processed.leaveCount,
+                    totalWorkingDays: processed.totalWorkingDaysCount,
+                    currentWorkingDay: processed.currentWorkingDayCount,
+                    remainingWorkingDays: processed.remainingWorkingDaysCount,
+                    averageHours: processed.averageHours,
+                    hoursNeededPerDay: processed.hoursNeededPerDay,
+                    anomalies: detectPunchAnomalies(attendanceData, workPolicy).filter((anomaly) =>
+                        isSameMonth(parseISO(anomaly.date), selectedDate)
+                    ),
+                    calendarDays: buildMonthlyCalendar(
+                        attendanceData,
+                        processed.holidayDates,
+                        processed.leaveDurations,
+                        selectedDate,
+                        workPolicy
+                    ),
+                    attendanceData,
+                    loading: false,
+                    error: null,
+                };
+            };
 
+            // Show archived history right away (and offline); Keka's response replaces it below
+            let hasArchivedStats = false;
             try {
-                const dateStr = format(selectedDate, "yyyy-MM-dd");
-                const isCurrentMonth = isSameMonth(selectedDate, new Date());
+                const archivedAttendance = await getArchivedAttendance(
+                    getDayKey(startOfMonth(selectedDate)),
+                    getDayKey(endOfMonth(selectedDate))
+                );
+                if (archivedAttendance.length > 0) {
+                    const [archivedHolidays, archivedLeave] = await Promise.all([
+                        getArchivedSnapshot<HolidayResponse>("holidays", dateStr),
+                        getArchivedSnapshot<LeaveResponse>("leave", dateStr),
+                    ]);
+                    setStats(buildStats(archivedAttendance, archivedHolidays, archivedLeave));
+                    hasArchivedStats = true;
+                }
+            } catch (e) {
+                console.error("Failed to read attendance archive", e);
+            }
+
+            if (!accessToken) return;
 
+            if (!hasArchivedStats) {
+                setStats((prev) => ({ ...prev, loading: true, error: null }));
+            }
+
+            try {
                 // Always fetch holidays and leaves for context
                 const [attendanceData, holidaysData] = await Promise.all([
                     fetchAttendanceSummary(accessToken, dateStr),
-                    fetchHolidays(accessToken, dateStr)
+                    getCachedHolidays(accessToken, dateStr)
                 ]);
 
                 let leaveData = null;
                 try {
-                    leaveData = await fetchLeaveSummary(accessToken, dateStr);
+                    leaveData = await getCachedLeaveSummary(accessToken, dateStr);
                 } catch (e) {
                     // console.error("Failed to fetch leave data", e);
                 }
 
                 if (!attendanceData) throw new Error("Failed to fetch attendance");
 
-                // Basic processing using existing logic
-                const processed = processMonthlyStats(attendanceData, holidaysData, leaveData, selectedDate);
+                archiveAttendanceDays(attendanceData).catch((e) => console.error("Failed to archive attendance", e));
 
-                let finalStats: MonthlyStats = {
-                    holidays: processed.holidayDates,
-                    leaveDaysCount: processed.leaveCount,
-                    totalWorkingDays: processed.totalWorkingDaysCount,
-                    currentWorkingDay: processed.currentWorkingDayCount,
-                    remainingWorkingDays: processed.remainingWorkingDaysCount,
-                    averageHours: processed.averageHours,
-                    hoursNeededPerDay: processed.hoursNeededPerDay,
-                    loading: false,
-                };
+                let finalStats = buildStats(attendanceData, holidaysData, leaveData);
 
                 // If past month, fetch correct average and worked days from RangeStats API
                 if (!isCurrentMonth) {
@@ -73,21 +126,11 @@ export const useMonthlyStats = (accessToken: string | null, selectedDate: Date)
 
                         const rangeStats = await fetchRangeStats(accessToken, fromDate, toDate);
 
-                        if (rangeStats?.data?.myStats) {
+                        // Already checked against the expected shape by fetchRangeStats
+                        if (rangeStats) {
                             const { averageHoursPerDayInHHMM, workingDays } = rangeStats.data.myStats;
 
-                            let avgHoursDec = 0;
-                            if (averageHoursPerDayInHHMM) {
-                                const parts: string[] = averageHoursPerDayInHHMM.split(' ');
-                                let h = 0, m = 0;
-                                parts.forEach((p: string) => {
-                                    if (p.includes('h')) h = parseInt(p);
-                                    if (p.includes('m')) m = parseInt(p);
-                                });
-                                avgHoursDec = h + (m / 60);
-                            }
-
-                            finalStats.averageHours = avgHoursDec;
+                            finalStats.averageHours = parseHoursMinutes(averageHoursPerDayInHHMM);
                             finalStats.currentWorkingDay = workingDays;
                             finalStats.remainingWorkingDays = 0;
                             finalStats.hoursNeededPerDay = null;
@@ -100,18 +143,17 @@ export const useMonthlyStats = (accessToken: string | null, selectedDate: Date)
                 setStats(finalStats);
 
             } catch (err) {
-                // Suppress error logging
-                /*
-                if (err instanceof Error && err.message !== 'Unauthorized') {
-                    console.error("Error loading monthly stats:", err);
-                }
-                */
-                setStats((prev) => ({ ...prev, loading: false }));
+                // The login prompt covers an expired session; anything else is shown above the (possibly archived) stats
+                setStats((prev) => ({
+                    ...prev,
+                    loading: false,
+                    error: isApiErrorKind(err, "unauthorized") ? null : describeApiError(err),
+                }));
             }
         };
 
         loadStats();
-    }, [accessToken, selectedDate]);
+    }, [accessToken, selectedDate, workPolicy, plans]);
 
     return stats;
 };
@@ -0,0 +1,50 @@
+import { useState, useEffect } from "react";
+import { browser } from "wxt/browser";
+import type { NotificationRule } from "../../../utils/types";
+import {
+    DEFAULT_NOTIFICATION_RULES,
+    NOTIFICATION_RULES_STORAGE_KEY,
+    getNotificationRules,
+    normalizeNotificationRules,
+    saveNotificationRules,
+} from "../../../utils/rules";
+import { resolveProfileStorage } from "../../../utils/profiles";
+
+export const useNotificationRules = () => {
+    const [rules, setRules] = useState<NotificationRule[]>(DEFAULT_NOTIFICATION_RULES);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        const loadRules = async () => {
+            try {
+                setRules(await getNotificationRules());
+            } catch (err) {
+                console.error("Error loading notification rules:", err);
+            } finally {
+                setIsLoaded(true);
+            }
+        };
+        loadRules();
+
+        const handleStorageChange = async (changes: Record<string, any>, areaName: string) => {
+            if (areaName !== "local") return;
+            const rulesKey = (await resolveProfileStorage()).key(NOTIFICATION_RULES_STORAGE_KEY);
+            if (changes[rulesKey]) {
+                setRules(normalizeNotificationRules(changes[rulesKey].newValue));
+            }
+        };
+        browser.storage.onChanged.addListener(handleStorageChange);
+        return () => browser.storage.onChanged.removeListener(handleStorageChange);
+    }, []);
+
+    const updateRules = async (next: NotificationRule[]) => {
+        setRules(next);
+        try {
+            await saveNotificationRules(next);
+        } catch (err) {
+            console.error("Error saving notification rules:", err);
+        }
+    };
+
+    return { rules, isLoaded, updateRules };
+};
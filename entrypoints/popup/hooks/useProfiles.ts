@@ -0,0 +1,85 @@
+import { useState, useEffect } from "react";
+import { browser } from "wxt/browser";
+import type { Profile } from "../../../utils/types";
+import { deleteProfileArchive } from "../../../utils/archive";
+import {
+    ACTIVE_PROFILE_STORAGE_KEY,
+    DEFAULT_PROFILE_ID,
+    PROFILES_STORAGE_KEY,
+    addProfile as addStoredProfile,
+    getActiveProfileId,
+    getProfiles,
+    removeProfile as removeStoredProfile,
+    renameProfile as renameStoredProfile,
+    setActiveProfileId,
+} from "../../../utils/profiles";
+import { sendMessage } from "../../../utils/messages";
+
+// Keka accounts the extension tracks and the one the popup is showing
+export const useProfiles = () => {
+    const [profiles, setProfiles] = useState<Profile[]>([]);
+    const [activeProfileId, setActiveProfileIdState] = useState(DEFAULT_PROFILE_ID);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        const loadProfiles = async () => {
+            try {
+                setProfiles(await getProfiles());
+                setActiveProfileIdState(await getActiveProfileId());
+            } catch (err) {
+                console.error("Error loading profiles:", err);
+            } finally {
+                setIsLoaded(true);
+            }
+        };
+        loadProfiles();
+
+        const handleStorageChange = (changes: Record<string, any>, areaName: string) => {
+            if (areaName === "local" && (changes[PROFILES_STORAGE_KEY] || changes[ACTIVE_PROFILE_STORAGE_KEY])) {
+                loadProfiles();
+            }
+        };
+        browser.storage.onChanged.addListener(handleStorageChange);
+        return () => browser.storage.onChanged.removeListener(handleStorageChange);
+    }, []);
+
+    // Every hook reads the active profile on load, so switching starts the popup over
+    const switchProfile = async (profileId: string) => {
+        if (profileId === activeProfileId) return;
+        try {
+            await setActiveProfileId(profileId);
+            sendMessage("FORCE_CHECK").catch(() => { });
+            window.location.reload();
+        } catch (err) {
+            console.error("Error switching profile:", err);
+        }
+    };
+
+    const addProfile = async (name: string, domain: string) => {
+        const profile = await addStoredProfile(name, domain);
+        // Start tracking the new account right away
+        sendMessage("FORCE_CHECK").catch(() => { });
+        return profile;
+    };
+
+    const renameProfile = async (profileId: string, name: string) => {
+        try {
+            await renameStoredProfile(profileId, name);
+        } catch (err) {
+            console.error("Error renaming profile:", err);
+        }
+    };
+
+    const removeProfile = async (profileId: string) => {
+        const wasActive = profileId === activeProfileId;
+        try {
+            await removeStoredProfile(profileId);
+            await deleteProfileArchive(profileId);
+            if (wasActive) window.location.reload();
+        } catch (err) {
+            console.error("Error removing profile:", err);
+        }
+    };
+
+    return { profiles, activeProfileId, isLoaded, switchProfile, addProfile, renameProfile, removeProfile };
+};
@@ -0,0 +1,52 @@
+import { useState, useEffect } from "react";
+import { browser } from "wxt/browser";
+import type { KekaEndpoint, ResponseFormatIssue } from "../../../utils/types";
+import { sendMessage } from "../../../utils/messages";
+import { getProfileStorageKey } from "../../../utils/profiles";
+import { RESPONSE_FORMAT_ISSUE_STORAGE_KEY } from "../../../utils/validation";
+
+export type PopupTab = "today" | "weekly" | "monthly";
+
+// Range stats are only fetched for the Weekly and Monthly tabs; everything else feeds every tab
+const ENDPOINT_TABS: Record<KekaEndpoint, PopupTab[]> = {
+    attendance: ["today", "weekly", "monthly"],
+    holidays: ["today", "weekly", "monthly"],
+    leave: ["today", "weekly", "monthly"],
+    "range-stats": ["weekly", "monthly"],
+};
+
+export const isTabAffectedByIssue = (issue: ResponseFormatIssue | null, tab: PopupTab) =>
+    !!issue && ENDPOINT_TABS[issue.endpoint].includes(tab);
+
+// Set while a Keka response for the shown profile doesn't match what the calculations expect
+export const useResponseFormatIssue = (activeProfileId: string) => {
+    const [issue, setIssue] = useState<ResponseFormatIssue | null>(null);
+
+    useEffect(() => {
+        const issueKey = getProfileStorageKey(activeProfileId, RESPONSE_FORMAT_ISSUE_STORAGE_KEY);
+        setIssue(null);
+
+        const loadIssue = async () => {
+            try {
+                const status = await sendMessage("GET_STATUS");
+                if (status.profileId === activeProfileId) {
+                    setIssue(status.responseFormatIssue);
+                }
+            } catch (err) {
+                console.error("Error loading response format state:", err);
+            }
+        };
+        loadIssue();
+
+        // Popup fetches record issues too, so follow the stored value directly
+        const handleStorageChange = (changes: Record<string, any>, areaName: string) => {
+            if (areaName === "local" && changes[issueKey]) {
+                setIssue((changes[issueKey].newValue as ResponseFormatIssue) ?? null);
+            }
+        };
+        browser.storage.onChanged.addListener(handleStorageChange);
+        return () => browser.storage.onChanged.removeListener(handleStorageChange);
+    }, [activeProfileId]);
+
+    return issue;
+};
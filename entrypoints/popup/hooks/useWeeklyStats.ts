@@ -1,18 +1,25 @@
 import { useState, useEffect } from "react";
 import { format, isSameWeek, startOfWeek, endOfWeek } from "date-fns";
-import {
-  fetchAttendanceSummary,
-  fetchHolidays,
-  fetchLeaveSummary,
-  fetchRangeStats,
-} from "../../../utils/api";
+import { fetchAttendanceSummary, fetchRangeStats } from "../../../utils/api";
+import { getCachedHolidays, getCachedLeaveSummary } from "../../../utils/cache";
+import { parseHoursMinutes } from "../../../utils/validation";
+import { describeApiError, isApiErrorKind } from "../../../utils/errors";
 import { processWeeklyStats } from "../../../utils/calculations";
-import type { WeeklyStats } from "../../../utils/types";
+import { getTargetAverageHours } from "../../../utils/policy";
+import { WEEK_OPTIONS, getDayKey } from "../../../utils/period";
+import {
+  archiveAttendanceDays,
+  getArchivedAttendance,
+  getArchivedSnapshot,
+} from "../../../utils/archive";
+import type { DayPlans, HolidayResponse, LeaveResponse, WeeklyStats, WorkPolicy } from "../../../utils/types";
 
 export const useWeeklyStats = (
   accessToken: string | null,
-  isManualHalfDay: boolean,
-  selectedDate: Date
+  halfDayOverride: boolean | null,
+  selectedDate: Date,
+  workPolicy: WorkPolicy,
+  plans: DayPlans
 ) => {
   const [stats, setStats] = useState<WeeklyStats>({
     holidays: [],
@@ -25,46 +32,82 @@ export const useWeeklyStats = (
     weeklyTarget: 0,
     totalWorked: 0,
     remaining: 0,
+    days: [],
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     const loadStats = async () => {
-      if (!accessToken) return;
+      // Use Monday as start of week to match typical business logic
+      const weekStart = startOfWeek(selectedDate, WEEK_OPTIONS);
+      const dateStr = format(weekStart, "yyyy-MM-dd");
 
-      setLoading(true);
-      setError(null);
+      const isCurrentWeek = isSameWeek(selectedDate, new Date(), WEEK_OPTIONS);
 
+      // Show archived history right away (and offline); Keka's response replaces it below
+      let hasArchivedStats = false;
       try {
-        // Use Monday as start of week to match typical business logic
-        const weekStart = startOfWeek(selectedDate, { weekStartsOn: 1 });
-        const dateStr = format(weekStart, "yyyy-MM-dd");
+        const archivedAttendance = await getArchivedAttendance(
+          getDayKey(weekStart),
+          getDayKey(endOfWeek(selectedDate, WEEK_OPTIONS))
+        );
+        if (archivedAttendance.length > 0) {
+          const [archivedHolidays, archivedLeave] = await Promise.all([
+            getArchivedSnapshot<HolidayResponse>("holidays", dateStr),
+            getArchivedSnapshot<LeaveResponse>("leave", dateStr),
+          ]);
+          setStats(
+            processWeeklyStats(
+              archivedAttendance,
+              archivedHolidays,
+              archivedLeave,
+              halfDayOverride,
+              selectedDate,
+              workPolicy,
+              plans
+            )
+          );
+          hasArchivedStats = true;
+        }
+      } catch (e) {
+        console.error("Failed to read attendance archive", e);
+      }
 
-        const isCurrentWeek = isSameWeek(selectedDate, new Date(), { weekStartsOn: 1 });
+      if (!accessToken) return;
+
+      setLoading(!hasArchivedStats);
+      setError(null);
 
+      try {
         // Fetch same data as monthly: Attendance summary, holidays, leaves
         const [attendanceData, holidaysData] = await Promise.all([
           fetchAttendanceSummary(accessToken, dateStr),
-          fetchHolidays(accessToken, dateStr),
+          getCachedHolidays(accessToken, dateStr),
         ]);
 
         let leaveData = null;
         try {
-          leaveData = await fetchLeaveSummary(accessToken, dateStr);
+          leaveData = await getCachedLeaveSummary(accessToken, dateStr);
         } catch (e) {
           // console.error("Failed to fetch leave data", e);
         }
 
         if (!attendanceData) throw new Error("Failed to fetch attendance");
 
+        archiveAttendanceDays(attendanceData).catch((e) =>
+          console.error("Failed to archive attendance", e)
+        );
+
         // Process with selectedDate
         const processed = processWeeklyStats(
           attendanceData,
           holidaysData,
           leaveData,
-          isManualHalfDay,
-          selectedDate
+          halfDayOverride,
+          selectedDate,
+          workPolicy,
+          plans
         );
 
         let finalStats = { ...processed };
@@ -73,36 +116,26 @@ export const useWeeklyStats = (
         if (!isCurrentWeek) {
           try {
             const fromDate = format(weekStart, "yyyy-MM-dd");
-            const toDate = format(endOfWeek(selectedDate, { weekStartsOn: 1 }), "yyyy-MM-dd");
+            const toDate = format(endOfWeek(selectedDate, WEEK_OPTIONS), "yyyy-MM-dd");
 
             const rangeStats = await fetchRangeStats(accessToken, fromDate, toDate);
 
-            if (rangeStats?.data?.myStats) {
+            // Already checked against the expected shape by fetchRangeStats
+            if (rangeStats) {
               const { totalEffectiveHours, workingDays, averageHoursPerDayInHHMM } = rangeStats.data.myStats;
 
               // Update Total Worked
               finalStats.totalWorked = totalEffectiveHours;
 
-              // Determine Weekly Target based on Working Days (assuming 8.25h/day standard)
-              // Or roughly estimate?
-              // If we have workingDays (e.g. 5), then target = 5 * 8.25 = 41.25.
-              finalStats.weeklyTarget = workingDays * 8.25;
+              // Determine Weekly Target based on Working Days and the policy's daily target
+              // If we have workingDays (e.g. 5) on an 8h 15m policy, then target = 5 * 8.25 = 41.25.
+              finalStats.weeklyTarget = workingDays * getTargetAverageHours(workPolicy);
 
               // Remaining calculation - only 0 if target met
               finalStats.remaining = Math.max(0, finalStats.weeklyTarget - finalStats.totalWorked);
 
               // Update Average Hours
-              let avgHoursDec = 0;
-              if (averageHoursPerDayInHHMM) {
-                const parts: string[] = averageHoursPerDayInHHMM.split(' ');
-                let h = 0, m = 0;
-                parts.forEach((p: string) => {
-                  if (p.includes('h')) h = parseInt(p);
-                  if (p.includes('m')) m = parseInt(p);
-                });
-                avgHoursDec = h + (m / 60);
-              }
-              finalStats.averageHours = avgHoursDec;
+              finalStats.averageHours = parseHoursMinutes(averageHoursPerDayInHHMM);
 
               finalStats.totalWorkingDays = workingDays;
               finalStats.currentWorkingDay = workingDays;
@@ -117,18 +150,15 @@ export const useWeeklyStats = (
 
         setStats(finalStats);
       } catch (err) {
-        if (err instanceof Error) {
-          setError(err.message);
-        } else {
-          setError("An unknown error occurred");
-        }
+        // The login prompt covers an expired session
+        setError(isApiErrorKind(err, "unauthorized") ? null : describeApiError(err));
       } finally {
         setLoading(false);
       }
     };
 
     loadStats();
-  }, [accessToken, isManualHalfDay, selectedDate]);
+  }, [accessToken, halfDayOverride, selectedDate, workPolicy, plans]);
 
   return { ...stats, loading, error };
 };
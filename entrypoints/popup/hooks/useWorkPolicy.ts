@@ -0,0 +1,50 @@
+import { useState, useEffect } from "react";
+import { browser } from "wxt/browser";
+import type { WorkPolicy } from "../../../utils/types";
+import {
+    DEFAULT_WORK_POLICY,
+    WORK_POLICY_STORAGE_KEY,
+    getWorkPolicy,
+    normalizeWorkPolicy,
+    saveWorkPolicy,
+} from "../../../utils/policy";
+import { resolveProfileStorage } from "../../../utils/profiles";
+import { sendMessage } from "../../../utils/messages";
+
+export const useWorkPolicy = () => {
+    const [workPolicy, setWorkPolicy] = useState<WorkPolicy>(DEFAULT_WORK_POLICY);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        const loadWorkPolicy = async () => {
+            try {
+                setWorkPolicy(await getWorkPolicy());
+            } catch (err) {
+                console.error("Error loading work policy:", err);
+            } finally {
+                setIsLoaded(true);
+            }
+        };
+        loadWorkPolicy();
+
+        // Keep in sync when the policy is saved from Settings
+        const handleStorageChange = async (changes: Record<string, any>, areaName: string) => {
+            if (areaName !== "local") return;
+            const policyKey = (await resolveProfileStorage()).key(WORK_POLICY_STORAGE_KEY);
+            if (changes[policyKey]) {
+                setWorkPolicy(normalizeWorkPolicy(changes[policyKey].newValue));
+            }
+        };
+        browser.storage.onChanged.addListener(handleStorageChange);
+        return () => browser.storage.onChanged.removeListener(handleStorageChange);
+    }, []);
+
+    const updateWorkPolicy = async (policy: WorkPolicy) => {
+        setWorkPolicy(normalizeWorkPolicy(policy));
+        await saveWorkPolicy(policy);
+        // Let the background recalculate notifications with the new targets
+        sendMessage("FORCE_CHECK").catch(() => { });
+    };
+
+    return { workPolicy, isLoaded, updateWorkPolicy };
+};
@@ -1,6 +1,9 @@
 import { useEffect, useCallback, useMemo, useRef } from "react";
 import type { Metrics, NotificationStates, NotificationServiceProps } from "../../../utils/types";
 import { browser } from "wxt/browser";
+import { formatMinutes } from "../../../utils/calculations";
+import { getDayTarget, getTargetAverageHours } from "../../../utils/policy";
+import { getDayKey, getWeekKey } from "../../../utils/period";
 
 export function NotificationService({
   accessToken,
@@ -8,6 +11,7 @@ export function NotificationService({
   leaveTimeInfo,
   isClockedIn,
   isHalfDay,
+  workPolicy,
   totalWorkedMinutes,
   isHalfDayLoaded,
   attendanceData,
@@ -27,9 +31,9 @@ export function NotificationService({
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Memoized calculations to prevent recalculation on every render
-  const targetMinutes = useMemo(() => isHalfDay ? 4 * 60 + 30 : 8 * 60 + 15, [isHalfDay]);
-  const currentDay = useMemo(() => new Date().toISOString().split("T")[0], []);
-  const currentWeek = useMemo(() => `week_${new Date().getFullYear()}-${Math.floor(new Date().getDate() / 7)}`, []);
+  const targetMinutes = useMemo(() => getDayTarget(workPolicy, isHalfDay).targetMinutes, [workPolicy, isHalfDay]);
+  const currentDay = useMemo(() => getDayKey(), []);
+  const currentWeek = useMemo(() => getWeekKey(), []);
 
   // Optimized notification helper functions
   const showNotification = useCallback(async (title: string, message: string, requireInteraction = false) => {
@@ -150,7 +154,7 @@ export function NotificationService({
         if (justCompleted) {
           const message = isHalfDay
             ? "You've completed your half day target! 🎉"
-            : "You've completed your full day target (8h 15m)! 🎉";
+            : `You've completed your full day target (${formatMinutes(targetMinutes)})! 🎉`;
           notificationsToShow.push({
             title: "Work Target Completed! 🎯",
             message,
@@ -164,18 +168,18 @@ export function NotificationService({
       if (metrics && !notificationStates.averageTargetNotifiedToday) {
         if (averageHours !== null && totalWorkingDays && remainingWorkingDays) {
           if (totalWorkingDays > 0 && currentWorkingDay !== null && remainingWorkingDays && remainingWorkingDays > 0 && averageHours !== null) {
-            const TARGET_AVERAGE_HOURS = 8.25;
-            const totalHoursNeeded = totalWorkingDays * TARGET_AVERAGE_HOURS;
+            const targetAverageHours = getTargetAverageHours(workPolicy);
+            const totalHoursNeeded = totalWorkingDays * targetAverageHours;
             const hoursWorkedSoFar = averageHours * currentWorkingDay;
             const hoursRemaining = totalHoursNeeded - hoursWorkedSoFar;
             const hoursNeededPerDay = hoursRemaining / remainingWorkingDays;
 
-            if (hoursNeededPerDay < 8.25) {
+            if (hoursNeededPerDay < targetAverageHours) {
               const neededMinutes = Math.ceil(hoursNeededPerDay * 60);
               if (totalWorkedMinutes >= neededMinutes) {
                 notificationsToShow.push({
                   title: "Daily Average Met! 🌟",
-                  message: "Great job today! 🎉 You’ve already hit your daily average. Feel free to wrap up whenever you’re ready — your monthly 8h 15m average is still on track! 🥳",
+                  message: `Great job today! 🎉 You’ve already hit your daily average. Feel free to wrap up whenever you’re ready — your monthly ${formatMinutes(workPolicy.dailyTargetMinutes)} average is still on track! 🥳`,
                   stateKey: "averageTargetNotifiedToday",
                   storageKey: `average_target_notified_${currentDay}`
                 });
@@ -209,12 +213,11 @@ export function NotificationService({
 
       // 4. Clocked In Too Long Notification
       if (!notificationStates.clockedInTooLongNotifiedToday && isClockedIn) {
-        const nineHours = 9 * 60;
-        const isTooLong = totalWorkedMinutes >= nineHours;
+        const isTooLong = totalWorkedMinutes >= workPolicy.longSessionAlertMinutes;
         if (isTooLong) {
           notificationsToShow.push({
             title: "Long Work Session Alert! ⚠️",
-            message: "You've been clocked in for 9+ hours. Remember to take breaks and prioritize your well-being!",
+            message: `You've been clocked in for ${formatMinutes(workPolicy.longSessionAlertMinutes)}+. Remember to take breaks and prioritize your well-being!`,
             stateKey: "clockedInTooLongNotifiedToday",
             storageKey: `clocked_in_too_long_notified_${currentDay}`
           });
@@ -335,6 +338,7 @@ export function NotificationService({
     remainingWorkingDays,
     averageHours,
     notificationStates,
+    workPolicy,
     targetMinutes,
     currentDay,
     currentWeek,
@@ -0,0 +1,93 @@
+import { differenceInMinutes, format } from "date-fns";
+import type {
+  AttendanceData,
+  PunchAnomaly,
+  PunchAnomalyType,
+  TimeEntry,
+  WorkPolicy,
+} from "./types";
+import { getChronologicalEntries } from "./calculations";
+import { DEFAULT_WORK_POLICY } from "./policy";
+import { getDayKey } from "./period";
+
+const createAnomaly = (
+  type: PunchAnomalyType,
+  entry: TimeEntry,
+): PunchAnomaly => {
+  const punchDate = new Date(entry.actualTimestamp);
+  const time = format(punchDate, "h:mm a");
+
+  const messages: Record<PunchAnomalyType, string> = {
+    "double-in": `Punched in again at ${time} without punching out`,
+    "orphan-out": `Punch out at ${time} has no matching punch in`,
+    "missing-out": `Punched in at ${time} but never punched out`,
+    "zero-length": `Punched in and out at ${time} with no time in between`,
+  };
+
+  return {
+    type,
+    date: getDayKey(punchDate),
+    timestamp: entry.actualTimestamp,
+    message: messages[type],
+  };
+};
+
+// Find punches that the In/Out pairing in calculations.ts would silently drop or overwrite
+export const detectPunchAnomalies = (
+  attendanceData: AttendanceData[],
+  policy: WorkPolicy = DEFAULT_WORK_POLICY,
+  now: Date = new Date(),
+): PunchAnomaly[] => {
+  const anomalies: PunchAnomaly[] = [];
+  let currentStart: TimeEntry | null = null;
+
+  for (const entry of getChronologicalEntries(attendanceData)) {
+    const entryDate = new Date(entry.actualTimestamp);
+
+    if (entry.punchStatus === 0) {
+      if (currentStart) {
+        // A long gap means yesterday's punch-out was forgotten, otherwise it is a repeated In
+        const gapMinutes = differenceInMinutes(
+          entryDate,
+          new Date(currentStart.actualTimestamp),
+        );
+        anomalies.push(
+          gapMinutes > policy.maxSessionMinutes
+            ? createAnomaly("missing-out", currentStart)
+            : createAnomaly("double-in", entry),
+        );
+      }
+      currentStart = entry;
+    } else if (entry.punchStatus === 1) {
+      if (!currentStart) {
+        anomalies.push(createAnomaly("orphan-out", entry));
+        continue;
+      }
+
+      const durationMinutes = differenceInMinutes(
+        entryDate,
+        new Date(currentStart.actualTimestamp),
+      );
+      if (durationMinutes > policy.maxSessionMinutes) {
+        anomalies.push(createAnomaly("missing-out", currentStart));
+        anomalies.push(createAnomaly("orphan-out", entry));
+      } else if (durationMinutes === 0) {
+        anomalies.push(createAnomaly("zero-length", entry));
+      }
+      currentStart = null;
+    }
+  }
+
+  // Trailing In that is too old to still be a running session
+  if (currentStart) {
+    const openMinutes = differenceInMinutes(
+      now,
+      new Date(currentStart.actualTimestamp),
+    );
+    if (openMinutes > policy.maxSessionMinutes) {
+      anomalies.push(createAnomaly("missing-out", currentStart));
+    }
+  }
+
+  return anomalies;
+};
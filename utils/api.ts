@@ -1,10 +1,20 @@
-import { browser } from 'wxt/browser';
-import type { AttendanceData } from './types';
+import type { AttendanceData, HolidayResponse, LeaveResponse, RangeStatsResponse } from './types';
+import { resolveProfileStorage } from './profiles';
+import {
+    decodeAttendanceSummary,
+    decodeHolidays,
+    decodeKekaResponse,
+    decodeLeaveSummary,
+    decodeRangeStats,
+} from './validation';
+import { KekaApiError } from './errors';
 
 const DEFAULT_DOMAIN = 'infynno.keka.com';
 
-const getBaseUrl = async () => {
-    const { keka_domain } = await browser.storage.local.get('keka_domain');
+// Requests go to the given profile's tenant, or the active profile's when omitted
+const getBaseUrl = async (profileId?: string) => {
+    const profileStorage = await resolveProfileStorage(profileId);
+    const { keka_domain } = await profileStorage.get('keka_domain');
     let domain = (keka_domain as string) || DEFAULT_DOMAIN;
     if (!domain.startsWith('http')) {
         domain = `https://${domain}`;
@@ -12,79 +22,233 @@ const getBaseUrl = async () => {
     return domain.replace(/\/$/, '');
 };
 
+export const getKekaHomeUrl = async (profileId?: string) => getBaseUrl(profileId);
+
+// Attendance logs page in the Keka web app, where missing punches are regularized
+export const getRegularizationUrl = async (date: string) => {
+    const baseUrl = await getBaseUrl();
+    return `${baseUrl}/#/me/attendance/logs?date=${date}`;
+};
+
 interface RequestOptions {
     method?: string;
     headers?: Record<string, string>;
     body?: any;
+    profileId?: string;
 }
 
-const apiRequest = async (endpoint: string, token: string, options: RequestOptions = {}) => {
-    const baseUrl = await getBaseUrl();
-    const url = `${baseUrl}${endpoint}`;
-    const headers = {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
+const REQUEST_TIMEOUT_MS = 15000;
+// Retries after the first attempt, for reads only; a retried punch could be recorded twice
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+// Longer Retry-After waits are handed to the caller rather than slept through
+const MAX_RETRY_AFTER_MS = 10000;
+
+// Identical reads share one request, e.g. when the popup and background poll at the same time
+const inFlightRequests = new Map<string, Promise<any>>();
+
+// navigator.onLine only knows about the local network, so true doesn't guarantee Keka is reachable
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+// Calls back with the new state whenever the browser goes on or offline; returns an unsubscribe function
+export const onConnectivityChange = (callback: (online: boolean) => void) => {
+    const handleOnline = () => callback(true);
+    const handleOffline = () => callback(false);
+    globalThis.addEventListener?.('online', handleOnline);
+    globalThis.addEventListener?.('offline', handleOffline);
+    return () => {
+        globalThis.removeEventListener?.('online', handleOnline);
+        globalThis.removeEventListener?.('offline', handleOffline);
     };
+};
 
-    const response = await fetch(url, {
-        method: options.method || 'GET',
-        headers,
-        body: options.body ? JSON.stringify(options.body) : undefined,
-    });
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | null => {
+    if (!value) return null;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const offlineError = () => new KekaApiError({ kind: 'offline' }, 'Offline');
+
+// A single attempt; every failure is turned into a KekaApiError
+const sendRequest = async (url: string, init: RequestInit) => {
+    if (!isOnline()) throw offlineError();
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let response: Response;
+    try {
+        response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+        if (!isOnline()) throw offlineError();
+        const timedOut = error instanceof DOMException && error.name === 'AbortError';
+        throw new KekaApiError(
+            { kind: 'server', status: null },
+            timedOut ? 'Keka did not respond in time' : 'Could not reach Keka'
+        );
+    } finally {
+        clearTimeout(timeout);
+    }
 
     if (response.status === 401 || response.status === 403) {
-        throw new Error('Unauthorized');
+        // Message kept for code that predates the error kinds
+        throw new KekaApiError({ kind: 'unauthorized', status: response.status }, 'Unauthorized');
+    }
+
+    if (response.status === 429) {
+        throw new KekaApiError(
+            { kind: 'rate-limited', retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) },
+            'Too many requests to Keka'
+        );
+    }
+
+    if (response.status >= 400 && response.status < 500) {
+        throw new KekaApiError(
+            { kind: 'client', status: response.status },
+            `API request failed: ${response.status} ${response.statusText}`
+        );
     }
 
     if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+        throw new KekaApiError(
+            { kind: 'server', status: response.status },
+            `API request failed: ${response.status} ${response.statusText}`
+        );
     }
 
-    return response.json();
+    // Write endpoints (e.g. punches) may respond without a body
+    const text = await response.text();
+    try {
+        return text ? JSON.parse(text) : null;
+    } catch (error) {
+        throw new KekaApiError({ kind: 'malformed', field: null, detail: 'not JSON' }, 'Keka returned a response that is not JSON');
+    }
+};
+
+// Delay before the next attempt, or null when the failure shouldn't be retried
+const getRetryDelay = (error: unknown, attempt: number): number | null => {
+    if (!(error instanceof KekaApiError) || attempt >= MAX_RETRIES) return null;
+    const { detail } = error;
+    // Only network errors, timeouts and 5xx are worth another attempt
+    if (detail.kind === 'server' && (detail.status === null || detail.status >= 500)) {
+        return RETRY_BASE_DELAY_MS * 2 ** attempt;
+    }
+    if (detail.kind === 'rate-limited') {
+        const delay = detail.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt;
+        return delay <= MAX_RETRY_AFTER_MS ? delay : null;
+    }
+    return null;
+};
+
+const apiRequest = async (endpoint: string, token: string, options: RequestOptions = {}) => {
+    const baseUrl = await getBaseUrl(options.profileId);
+    const url = `${baseUrl}${endpoint}`;
+    const method = options.method || 'GET';
+    const init: RequestInit = {
+        method,
+        headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+            ...options.headers,
+        },
+        body: options.body ? JSON.stringify(options.body) : undefined,
+    };
+
+    if (method !== 'GET') {
+        return sendRequest(url, init);
+    }
+
+    const key = `${url}|${token}`;
+    const inFlight = inFlightRequests.get(key);
+    if (inFlight) return inFlight;
+
+    const request = (async () => {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await sendRequest(url, init);
+            } catch (error) {
+                const delay = getRetryDelay(error, attempt);
+                if (delay === null) throw error;
+                await wait(delay);
+            }
+        }
+    })().finally(() => inFlightRequests.delete(key));
+    inFlightRequests.set(key, request);
+    return request;
 };
 
-export const fetchAttendanceSummary = async (token: string, date?: string): Promise<AttendanceData[] | null> => {
+export const fetchAttendanceSummary = async (token: string, date?: string, profileId?: string): Promise<AttendanceData[] | null> => {
     try {
         let endpoint = '/k/attendance/api/mytime/attendance/summary';
         if (date) {
             endpoint += `?date=${date}`;
         }
-        const data = await apiRequest(endpoint, token);
-        if (data && data.data && Array.isArray(data.data)) {
-            return data.data;
+        const data = await apiRequest(endpoint, token, { profileId });
+        // An empty body means Keka had nothing for us; anything else must match the expected shape
+        if (data === null) {
+            return null;
         }
-        return null;
+        return await decodeKekaResponse('attendance', data, decodeAttendanceSummary, profileId);
     } catch (error) {
         throw error;
     }
 };
 
-export const fetchHolidays = async (token: string, date?: string) => {
+export const fetchHolidays = async (token: string, date?: string, profileId?: string): Promise<HolidayResponse> => {
     try {
         let endpoint = '/k/dashboard/api/dashboard/holidays';
         if (date) {
             endpoint += `?date=${date}`;
         }
-        return await apiRequest(endpoint, token);
+        const data = await apiRequest(endpoint, token, { profileId });
+        return await decodeKekaResponse('holidays', data, decodeHolidays, profileId);
     } catch (error) {
         // Re-throw so caller knows it failed, but do not log console.error here
         throw error;
     }
 }
 
-export const fetchLeaveSummary = async (token: string, forDate: string) => {
+export const fetchLeaveSummary = async (token: string, forDate: string, profileId?: string): Promise<LeaveResponse> => {
     try {
-        return await apiRequest(`/k/leave/api/me/leave/summary?forDate=${forDate}`, token);
+        const data = await apiRequest(`/k/leave/api/me/leave/summary?forDate=${forDate}`, token, { profileId });
+        return await decodeKekaResponse('leave', data, decodeLeaveSummary, profileId);
     } catch (error) {
         // Re-throw so caller knows it failed, but do not log console.error here
         throw error;
     }
 }
 
-export const fetchRangeStats = async (token: string, fromDate: string, toDate: string) => {
+export const fetchRangeStats = async (token: string, fromDate: string, toDate: string, profileId?: string): Promise<RangeStatsResponse> => {
+    try {
+        const data = await apiRequest(`/k/attendance/api/mytime/attendance/lastweekstats?fromDate=${fromDate}&toDate=${toDate}`, token, { profileId });
+        return await decodeKekaResponse('range-stats', data, decodeRangeStats, profileId);
+    } catch (error) {
+        throw error;
+    }
+}
+
+// Records a web punch in Keka for the current user. punchStatus 0 = In, 1 = Out.
+// Keka doesn't document this endpoint: the path and body mirror the request its own web clock-in
+// sends and haven't been verified against other tenants, which is why web punch stays behind the
+// off-by-default "Punch From Popup" setting.
+export const punchAttendance = async (token: string, punchStatus: number) => {
     try {
-        return await apiRequest(`/k/attendance/api/mytime/attendance/lastweekstats?fromDate=${fromDate}&toDate=${toDate}`, token);
+        return await apiRequest('/k/attendance/api/mytime/attendance/remoteclockin', token, {
+            method: 'POST',
+            body: {
+                timestamp: new Date().toISOString(),
+                attendanceLogSource: 1,
+                locationAddress: null,
+                manualClockinType: 1,
+                note: '',
+                originalPunchStatus: punchStatus,
+            },
+        });
     } catch (error) {
         throw error;
     }
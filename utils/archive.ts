@@ -0,0 +1,195 @@
+import { parseISO } from "date-fns";
+import { getDayKey, getMonthKey } from "./period";
+import type { AttendanceData } from "./types";
+import { DEFAULT_PROFILE_ID, getActiveProfileId } from "./profiles";
+
+// Long-term attendance history. storage.local only holds the latest poll, this keeps every day we've seen.
+const ARCHIVE_DB_NAME = "kivo_archive";
+const ARCHIVE_DB_VERSION = 1;
+const ATTENDANCE_STORE = "attendance";
+const SNAPSHOT_STORE = "snapshots";
+
+export type ArchiveSnapshotKind = "holidays" | "leave";
+
+interface ArchivedAttendanceDay {
+  attendanceDate: string;
+  // Local yyyy-MM-dd of attendanceDate, indexed for range queries
+  day: string;
+  data: AttendanceData;
+  archivedAt: number;
+}
+
+interface ArchivedSnapshot {
+  key: string;
+  value: unknown;
+  archivedAt: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// One database per profile; the default profile keeps the original name
+const getArchiveDbName = (profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID
+    ? ARCHIVE_DB_NAME
+    : `${ARCHIVE_DB_NAME}_${profileId}`;
+
+const archivePromises = new Map<string, Promise<IDBDatabase>>();
+
+const openArchive = async (profileId?: string): Promise<IDBDatabase> => {
+  const dbName = getArchiveDbName(profileId ?? (await getActiveProfileId()));
+  let archivePromise = archivePromises.get(dbName);
+  if (!archivePromise) {
+    archivePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, ARCHIVE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ATTENDANCE_STORE)) {
+          const store = db.createObjectStore(ATTENDANCE_STORE, {
+            keyPath: "attendanceDate",
+          });
+          store.createIndex("day", "day");
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a profile removal in another context delete the database
+        db.onversionchange = () => {
+          db.close();
+          archivePromises.delete(dbName);
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Allow a later call to retry opening
+      archivePromises.delete(dbName);
+      throw error;
+    });
+    archivePromises.set(dbName, archivePromise);
+  }
+  return archivePromise;
+};
+
+// Resolves once deletion is done, or queued behind connections still open elsewhere
+export const deleteProfileArchive = async (profileId: string): Promise<void> => {
+  const dbName = getArchiveDbName(profileId);
+  const db = await archivePromises.get(dbName)?.catch(() => null);
+  db?.close();
+  archivePromises.delete(dbName);
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(dbName);
+    request.onsuccess = () => resolve();
+    request.onblocked = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Upserts every day in a Keka attendance response
+export const archiveAttendanceDays = async (
+  attendanceData: AttendanceData[],
+  profileId?: string
+): Promise<void> => {
+  const days = attendanceData.filter((entry) => !!entry.attendanceDate);
+  if (days.length === 0) return;
+
+  const db = await openArchive(profileId);
+  const transaction = db.transaction(ATTENDANCE_STORE, "readwrite");
+  const store = transaction.objectStore(ATTENDANCE_STORE);
+  const archivedAt = Date.now();
+  days.forEach((entry) => {
+    const record: ArchivedAttendanceDay = {
+      attendanceDate: entry.attendanceDate,
+      day: getDayKey(new Date(entry.attendanceDate)),
+      data: entry,
+      archivedAt,
+    };
+    store.put(record);
+  });
+  await transactionDone(transaction);
+};
+
+// Archived days between two yyyy-MM-dd keys (inclusive), oldest first
+export const getArchivedAttendance = async (
+  fromDay: string,
+  toDay: string,
+  profileId?: string
+): Promise<AttendanceData[]> => {
+  const db = await openArchive(profileId);
+  const transaction = db.transaction(ATTENDANCE_STORE, "readonly");
+  const index = transaction.objectStore(ATTENDANCE_STORE).index("day");
+  const records = await requestToPromise(
+    index.getAll(IDBKeyRange.bound(fromDay, toDay)) as IDBRequest<
+      ArchivedAttendanceDay[]
+    >
+  );
+  return records.map((record) => record.data);
+};
+
+export const getArchivedDayCount = async (
+  profileId?: string
+): Promise<number> => {
+  const db = await openArchive(profileId);
+  const transaction = db.transaction(ATTENDANCE_STORE, "readonly");
+  return requestToPromise(transaction.objectStore(ATTENDANCE_STORE).count());
+};
+
+// Snapshots are kept per month, so any day of a month (or a week starting in it) finds the
+// holidays and leave Keka returned for that month
+const getSnapshotKey = (kind: ArchiveSnapshotKind, date: string) =>
+  `${kind}_${getMonthKey(parseISO(date))}`;
+
+export const archiveSnapshot = async (
+  kind: ArchiveSnapshotKind,
+  date: string,
+  value: unknown,
+  profileId?: string
+): Promise<void> => {
+  if (value === null || value === undefined) return;
+  const db = await openArchive(profileId);
+  const transaction = db.transaction(SNAPSHOT_STORE, "readwrite");
+  const record: ArchivedSnapshot = {
+    key: getSnapshotKey(kind, date),
+    value,
+    archivedAt: Date.now(),
+  };
+  transaction.objectStore(SNAPSHOT_STORE).put(record);
+  await transactionDone(transaction);
+};
+
+export const getArchivedSnapshot = async <T = unknown>(
+  kind: ArchiveSnapshotKind,
+  date: string,
+  profileId?: string
+): Promise<T | null> => {
+  const db = await openArchive(profileId);
+  const transaction = db.transaction(SNAPSHOT_STORE, "readonly");
+  const record = await requestToPromise(
+    transaction.objectStore(SNAPSHOT_STORE).get(getSnapshotKey(kind, date)) as IDBRequest<
+      ArchivedSnapshot | undefined
+    >
+  );
+  return record ? (record.value as T) : null;
+};
+
+// A month is empty once Keka has neither punches nor leave for any of its days
+export const hasAttendanceHistory = (attendanceData: AttendanceData[] | null) =>
+  !!attendanceData &&
+  attendanceData.some(
+    (entry) =>
+      (entry.timeEntries && entry.timeEntries.length > 0) ||
+      (entry.leaveDetails && entry.leaveDetails.length > 0)
+  );
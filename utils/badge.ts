@@ -0,0 +1,99 @@
+import { browser } from "wxt/browser";
+import type { BadgeMode, LeaveTimeInfo, Metrics } from "./types";
+import { formatMinutes } from "./calculations";
+import { resolveProfileStorage } from "./profiles";
+
+export const BADGE_MODE_STORAGE_KEY = "badge_mode";
+export const DEFAULT_BADGE_MODE: BadgeMode = "remaining";
+
+// Matches the Total Worked card colours in the popup
+export const BADGE_COLORS: Record<Metrics["totalWorkedStatus"] | "punchedOut", string> = {
+  yellow: "#d4af37",
+  green: "#10b981",
+  red: "#f87171",
+  punchedOut: "#9ca3af",
+};
+
+// Each profile picks its own mode; the badge shows whichever profile is active
+export const getBadgeMode = async (profileId?: string): Promise<BadgeMode> => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  const result = await profileStorage.get(BADGE_MODE_STORAGE_KEY);
+  const mode = result[BADGE_MODE_STORAGE_KEY];
+  return mode === "remaining" || mode === "worked" || mode === "off"
+    ? mode
+    : DEFAULT_BADGE_MODE;
+};
+
+// Badges only fit about four characters: "45m", "7:05", "+20m", "+1h"
+const formatBadgeMinutes = (minutes: number): string => {
+  const total = Math.max(0, Math.round(minutes));
+  if (total < 60) return `${total}m`;
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+};
+
+const formatBadgeOvertime = (minutes: number): string =>
+  minutes < 60 ? `+${minutes}m` : `+${Math.floor(minutes / 60)}h`;
+
+export const getBadgeText = (
+  mode: BadgeMode,
+  totalWorkedMinutes: number,
+  targetMinutes: number
+): string => {
+  switch (mode) {
+    case "off":
+      return "";
+    case "worked":
+      return formatBadgeMinutes(totalWorkedMinutes);
+    case "remaining":
+      return totalWorkedMinutes > targetMinutes
+        ? formatBadgeOvertime(totalWorkedMinutes - targetMinutes)
+        : formatBadgeMinutes(targetMinutes - totalWorkedMinutes);
+  }
+};
+
+export const getBadgeTitle = (
+  metrics: Metrics,
+  isClockedIn: boolean,
+  leaveTimeInfo: LeaveTimeInfo | null
+): string => {
+  const lines = [
+    `Kivo · ${isClockedIn ? "Punched In" : "Punched Out"}`,
+    `Worked ${metrics.totalWorked} · ${
+      metrics.isOvertime
+        ? `Overtime ${formatMinutes(metrics.overtimeMinutes)}`
+        : `Remaining ${metrics.remaining}`
+    }`,
+    `Est. completion ${metrics.estCompletion}`,
+  ];
+  if (leaveTimeInfo) {
+    lines.push(
+      `Leave ${leaveTimeInfo.normalLeaveTime} · Early leave ${leaveTimeInfo.earlyLeaveTime}`
+    );
+  }
+  return lines.join("\n");
+};
+
+export const updateActionBadge = async (
+  mode: BadgeMode,
+  metrics: Metrics,
+  totalWorkedMinutes: number,
+  targetMinutes: number,
+  isClockedIn: boolean,
+  leaveTimeInfo: LeaveTimeInfo | null
+): Promise<void> => {
+  await browser.action.setBadgeText({
+    text: getBadgeText(mode, totalWorkedMinutes, targetMinutes),
+  });
+  await browser.action.setBadgeBackgroundColor({
+    color: isClockedIn ? BADGE_COLORS[metrics.totalWorkedStatus] : BADGE_COLORS.punchedOut,
+  });
+  await browser.action.setTitle({
+    title: getBadgeTitle(metrics, isClockedIn, leaveTimeInfo),
+  });
+};
+
+// Used when there is nothing to show, e.g. while signed out of Keka
+export const clearActionBadge = async (title = "Kivo Time Tracker"): Promise<void> => {
+  await browser.action.setBadgeText({ text: "" });
+  await browser.action.setTitle({ title });
+};
@@ -0,0 +1,107 @@
+import type { ProfileStorage } from "./types";
+import { fetchHolidays, fetchLeaveSummary } from "./api";
+import { getDayKey } from "./period";
+import { archiveSnapshot } from "./archive";
+import { resolveProfileStorage } from "./profiles";
+
+export const API_CACHE_STORAGE_KEY = "api_cache";
+
+// Holidays rarely change; leave can be applied during the day so it expires sooner
+export const HOLIDAYS_CACHE_TTL_MS = 12 * 60 * 60 * 1000;
+export const LEAVE_SUMMARY_CACHE_TTL_MS = 30 * 60 * 1000;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+type ApiCache = Record<string, CacheEntry>;
+
+const readApiCache = async (
+  profileStorage: ProfileStorage
+): Promise<ApiCache> => {
+  const result = await profileStorage.get(API_CACHE_STORAGE_KEY);
+  const cache = result[API_CACHE_STORAGE_KEY];
+  return cache && typeof cache === "object" ? (cache as ApiCache) : {};
+};
+
+// Returns the cached value for key, or runs fetcher and caches its result for ttlMs.
+// Shared through storage so the background and the popup hooks reuse each other's responses.
+// Each profile has its own cache since responses belong to one Keka tenant.
+export const getCachedResponse = async <T>(
+  key: string,
+  ttlMs: number,
+  fetcher: () => Promise<T>,
+  profileId?: string
+): Promise<T> => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  const now = Date.now();
+  const cache = await readApiCache(profileStorage);
+  const entry = cache[key];
+  if (entry && entry.expiresAt > now) {
+    return entry.value as T;
+  }
+
+  // Failures are not cached, the caller decides how to handle them
+  const value = await fetcher();
+
+  const next: ApiCache = { [key]: { value, expiresAt: now + ttlMs } };
+  Object.entries(await readApiCache(profileStorage)).forEach(([k, e]) => {
+    if (k !== key && e && e.expiresAt > now) next[k] = e;
+  });
+  await profileStorage.set({ [API_CACHE_STORAGE_KEY]: next });
+  return value;
+};
+
+export const clearApiCache = async (profileId?: string): Promise<void> => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  await profileStorage.remove(API_CACHE_STORAGE_KEY);
+};
+
+// Fresh responses are also kept in the history archive for offline views
+const archiveFetched = <T>(
+  kind: "holidays" | "leave",
+  date: string,
+  fetcher: () => Promise<T>,
+  profileId?: string
+) => async () => {
+  const value = await fetcher();
+  archiveSnapshot(kind, date, value, profileId).catch((error) =>
+    console.error("Error archiving snapshot:", error)
+  );
+  return value;
+};
+
+export const getCachedHolidays = (
+  token: string,
+  date: string = getDayKey(),
+  profileId?: string
+) =>
+  getCachedResponse(
+    `holidays_${date}`,
+    HOLIDAYS_CACHE_TTL_MS,
+    archiveFetched(
+      "holidays",
+      date,
+      () => fetchHolidays(token, date, profileId),
+      profileId
+    ),
+    profileId
+  );
+
+export const getCachedLeaveSummary = (
+  token: string,
+  forDate: string,
+  profileId?: string
+) =>
+  getCachedResponse(
+    `leave_summary_${forDate}`,
+    LEAVE_SUMMARY_CACHE_TTL_MS,
+    archiveFetched(
+      "leave",
+      forDate,
+      () => fetchLeaveSummary(token, forDate, profileId),
+      profileId
+    ),
+    profileId
+  );
@@ -22,79 +22,164 @@ import type {
   HolidayResponse,
   LeaveResponse,
   MonthlyStats,
+  MonthlyCalendarDay,
+  WeeklyDayStats,
   WeeklyStats,
+  DayTarget,
+  WorkPolicy,
+  ShiftSession,
+  DayPlans,
 } from "./types";
+import {
+  DEFAULT_WORK_POLICY,
+  getTargetAverageHours,
+  resolveDayTarget,
+} from "./policy";
+import { WEEK_OPTIONS, getDayKey, getShiftDayKey } from "./period";
+import { getPlannedDay } from "./plans";
+
+// Format a minute count as "8h 15m"
+export const formatMinutes = (totalMinutes: number): string => {
+  const minutes = Math.max(0, Math.round(totalMinutes));
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
 
-// Helper to calculate total minutes from attendance data
-export const calculateMinutesFromAttendance = (
+// Attendance entry for a local calendar day (yyyy-MM-dd), if Keka returned one
+export const findAttendanceDay = (
   attendanceData: AttendanceData[],
-): {
-  totalWorkedMinutes: number;
-  isClockedIn: boolean;
-} => {
-  if (!attendanceData.length) {
-    return { totalWorkedMinutes: 0, isClockedIn: false };
-  }
+  day: string,
+): AttendanceData | undefined =>
+  attendanceData.find(
+    (entry) =>
+      !!entry.attendanceDate && getDayKey(new Date(entry.attendanceDate)) === day,
+  );
 
-  const lastEntry = attendanceData[attendanceData.length - 1];
-  let pairs: { startTime: string; endTime: string; durationMinutes: number }[] =
-    [];
-  let currentStart: TimeEntry | null = null;
-  let unpairedInEntry: TimeEntry | null = null;
+// Flatten punches from every day into one chronological list so sessions can span midnight
+export const getChronologicalEntries = (
+  attendanceData: AttendanceData[],
+): TimeEntry[] => {
+  const seen = new Set<string>();
+  const entries: TimeEntry[] = [];
 
-  // Process time entries
-  if (lastEntry.timeEntries && Array.isArray(lastEntry.timeEntries)) {
-    lastEntry.timeEntries.forEach((entry: TimeEntry) => {
+  attendanceData.forEach((day) => {
+    if (!day.timeEntries || !Array.isArray(day.timeEntries)) return;
+    day.timeEntries.forEach((entry) => {
       if (!entry.actualTimestamp) return;
+      const key = `${entry.actualTimestamp}_${entry.punchStatus}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      entries.push(entry);
+    });
+  });
 
-      if (entry.punchStatus === 0) {
-        currentStart = entry;
-      } else if (entry.punchStatus === 1 && currentStart) {
-        const startDate = new Date(currentStart.actualTimestamp);
-        const endDate = new Date(entry.actualTimestamp);
-        const totalMinutes = Math.floor(
-          (endDate.getTime() - startDate.getTime()) / (1000 * 60),
-        );
+  return entries.sort(
+    (a, b) =>
+      new Date(a.actualTimestamp).getTime() -
+      new Date(b.actualTimestamp).getTime(),
+  );
+};
 
-        pairs.push({
-          startTime: currentStart.actualTimestamp,
-          endTime: entry.actualTimestamp,
-          durationMinutes: totalMinutes,
-        });
+// Pair In/Out punches across adjacent days into shift sessions
+export const buildShiftSessions = (
+  attendanceData: AttendanceData[],
+  policy: WorkPolicy = DEFAULT_WORK_POLICY,
+  now: Date = new Date(),
+): ShiftSession[] => {
+  const sessions: ShiftSession[] = [];
+  let currentStart: TimeEntry | null = null;
 
-        currentStart = null;
+  for (const entry of getChronologicalEntries(attendanceData)) {
+    // punchStatus 0 = In (start), 1 = Out (end)
+    if (entry.punchStatus === 0) {
+      currentStart = entry;
+    } else if (entry.punchStatus === 1 && currentStart) {
+      const startDate = new Date(currentStart.actualTimestamp);
+      const durationMinutes = differenceInMinutes(
+        new Date(entry.actualTimestamp),
+        startDate,
+      );
+
+      // An Out more than a shift after its In means the punch-out was forgotten
+      if (durationMinutes <= policy.maxSessionMinutes) {
+        sessions.push({
+          startEntry: currentStart,
+          endEntry: entry,
+          durationMinutes,
+          shiftDay: getShiftDayKey(startDate, policy),
+        });
       }
-    });
 
-    if (currentStart) {
-      unpairedInEntry = currentStart;
+      currentStart = null;
     }
   }
 
-  // Calculate total worked minutes
-  let calculatedTotalWorkedMinutes = pairs.reduce(
-    (sum, pair) => sum + pair.durationMinutes,
-    0,
-  );
+  // Trailing "In" is a live session, unless it is too old to still be running
+  if (currentStart) {
+    const startDate = new Date(currentStart.actualTimestamp);
+    const openMinutes = differenceInMinutes(now, startDate);
+    if (openMinutes <= policy.maxSessionMinutes) {
+      sessions.push({
+        startEntry: currentStart,
+        endEntry: null,
+        durationMinutes: Math.max(0, openMinutes),
+        shiftDay: getShiftDayKey(startDate, policy),
+      });
+    }
+  }
 
-  // Add time from unpaired entry
-  if (unpairedInEntry) {
-    const entry = unpairedInEntry as TimeEntry;
-    const startDate = new Date(entry.actualTimestamp);
-    const now = new Date();
-    const additionalMinutes = Math.floor(
-      (now.getTime() - startDate.getTime()) / (1000 * 60),
-    );
-    calculatedTotalWorkedMinutes += additionalMinutes;
+  return sessions;
+};
+
+const resolveShiftDay = (
+  sessions: ShiftSession[],
+  policy: WorkPolicy,
+  now: Date,
+): string => {
+  // While clocked in, the current shift day is the one the open session started in
+  const openSession = sessions.find((session) => !session.endEntry);
+  return openSession ? openSession.shiftDay : getShiftDayKey(now, policy);
+};
+
+// Shift day that "Today" refers to right now
+export const getCurrentShiftDay = (
+  attendanceData: AttendanceData[],
+  policy: WorkPolicy = DEFAULT_WORK_POLICY,
+  now: Date = new Date(),
+): string =>
+  resolveShiftDay(buildShiftSessions(attendanceData, policy, now), policy, now);
+
+// Helper to calculate total minutes from attendance data for a shift day (defaults to the current one)
+export const calculateMinutesFromAttendance = (
+  attendanceData: AttendanceData[],
+  policy: WorkPolicy = DEFAULT_WORK_POLICY,
+  shiftDay?: string,
+): {
+  totalWorkedMinutes: number;
+  isClockedIn: boolean;
+} => {
+  if (!attendanceData.length) {
+    return { totalWorkedMinutes: 0, isClockedIn: false };
   }
 
-  const isClockedIn = !!unpairedInEntry;
+  const now = new Date();
+  const sessions = buildShiftSessions(attendanceData, policy, now);
+  const day = shiftDay ?? resolveShiftDay(sessions, policy, now);
+  const daySessions = sessions.filter((session) => session.shiftDay === day);
+
+  // Open sessions are measured up to now
+  const totalWorkedMinutes = daySessions.reduce(
+    (sum, session) => sum + session.durationMinutes,
+    0,
+  );
+  const isClockedIn = daySessions.some((session) => !session.endEntry);
 
-  return { totalWorkedMinutes: calculatedTotalWorkedMinutes, isClockedIn };
+  return { totalWorkedMinutes, isClockedIn };
 };
 
 export const calculateTimePairsAndBreaks = (
   attendanceData: AttendanceData[],
+  policy: WorkPolicy = DEFAULT_WORK_POLICY,
+  shiftDay?: string,
 ): {
   timePairs: TimePair[];
   breaks: Break[];
@@ -104,46 +189,34 @@ export const calculateTimePairsAndBreaks = (
     return { timePairs: [], breaks: [], unpairedInEntry: null };
   }
 
-  const lastEntry = attendanceData[attendanceData.length - 1];
+  const now = new Date();
+  const sessions = buildShiftSessions(attendanceData, policy, now);
+  const day = shiftDay ?? resolveShiftDay(sessions, policy, now);
   const pairs: TimePair[] = [];
   const breakList: Break[] = [];
-  let currentStart: TimeEntry | null = null;
   let unpairedInEntry: TimeEntry | null = null;
 
-  if (lastEntry.timeEntries && Array.isArray(lastEntry.timeEntries)) {
-    lastEntry.timeEntries.forEach((entry: TimeEntry) => {
-      if (!entry.actualTimestamp) return;
+  sessions
+    .filter((session) => session.shiftDay === day)
+    .forEach((session) => {
+      if (!session.endEntry) {
+        // "In" entry with no out record yet
+        unpairedInEntry = session.startEntry;
+        return;
+      }
 
-      // punchStatus 0 = In (start), 1 = Out (end)
-      if (entry.punchStatus === 0) {
-        // Start time
-        currentStart = entry;
-      } else if (entry.punchStatus === 1 && currentStart) {
-        // End time - create a pair
-        const startDate = new Date(currentStart.actualTimestamp);
-        const endDate = new Date(entry.actualTimestamp);
-        const totalMinutes = differenceInMinutes(endDate, startDate);
-        const hours = Math.floor(totalMinutes / 60);
-        const minutes = totalMinutes % 60;
-        const duration = `${hours}h ${minutes}m`;
-
-        pairs.push({
-          startTime: currentStart.actualTimestamp,
-          endTime: entry.actualTimestamp,
-          duration,
-          durationMinutes: totalMinutes,
-        });
+      const totalMinutes = session.durationMinutes;
+      const hours = Math.floor(totalMinutes / 60);
+      const minutes = totalMinutes % 60;
 
-        currentStart = null; // Reset for next pair
-      }
+      pairs.push({
+        startTime: session.startEntry.actualTimestamp,
+        endTime: session.endEntry.actualTimestamp,
+        duration: `${hours}h ${minutes}m`,
+        durationMinutes: totalMinutes,
+      });
     });
 
-    // Check if there's an unpaired "In" entry (no out record)
-    if (currentStart) {
-      unpairedInEntry = currentStart;
-    }
-  }
-
   // Calculate breaks between consecutive time pairs
   for (let i = 0; i < pairs.length - 1; i++) {
     const currentPair = pairs[i];
@@ -214,11 +287,10 @@ export const calculateTimePairsAndBreaks = (
 // Helper to generate metrics object from minutes
 export const generateMetricsFromMinutes = (
   totalWorkedMinutes: number,
-  isHalfDay: boolean,
+  dayTarget: DayTarget,
   isClockedIn: boolean = false,
 ): Metrics => {
-  // Determine target
-  const targetMinutes = isHalfDay ? 4 * 60 + 30 : 8 * 60 + 15;
+  const { targetMinutes, maxAcceptableMinutes } = dayTarget;
   const remainingMinutes = Math.max(0, targetMinutes - totalWorkedMinutes);
   const isOvertime = totalWorkedMinutes > targetMinutes;
   const overtimeMinutes = isOvertime ? totalWorkedMinutes - targetMinutes : 0;
@@ -229,24 +301,12 @@ export const generateMetricsFromMinutes = (
 
   // Determine status color
   let totalWorkedStatus: "yellow" | "green" | "red";
-  if (isHalfDay) {
-    const halfDayMax = 4 * 60 + 45;
-    if (totalWorkedMinutes < targetMinutes) {
-      totalWorkedStatus = "yellow";
-    } else if (totalWorkedMinutes <= halfDayMax) {
-      totalWorkedStatus = "green";
-    } else {
-      totalWorkedStatus = "red";
-    }
+  if (totalWorkedMinutes < targetMinutes) {
+    totalWorkedStatus = "yellow";
+  } else if (totalWorkedMinutes <= maxAcceptableMinutes) {
+    totalWorkedStatus = "green";
   } else {
-    const maxAcceptable = 8 * 60 + 30;
-    if (totalWorkedMinutes < targetMinutes) {
-      totalWorkedStatus = "yellow";
-    } else if (totalWorkedMinutes <= maxAcceptable) {
-      totalWorkedStatus = "green";
-    } else {
-      totalWorkedStatus = "red";
-    }
+    totalWorkedStatus = "red";
   }
 
   // Format total worked
@@ -290,10 +350,10 @@ export const generateMetricsFromMinutes = (
 
 export const calculateLeaveTimeInfo = (
   totalWorkedMinutes: number,
-  halfDay: boolean,
+  dayTarget: DayTarget,
 ): LeaveTimeInfo => {
   const now = new Date();
-  const normalTarget = halfDay ? 4 * 60 + 30 : 8 * 60 + 15;
+  const normalTarget = dayTarget.targetMinutes;
 
   let normalLeaveTimeStr: string;
   if (totalWorkedMinutes >= normalTarget) {
@@ -309,7 +369,7 @@ export const calculateLeaveTimeInfo = (
     normalLeaveTimeStr = `${normalLeaveTime.getHours() > 12 ? normalLeaveTime.getHours() - 12 : normalLeaveTime.getHours()}:${normalLeaveTime.getMinutes().toString().padStart(2, "0")} ${normalLeaveTime.getHours() >= 12 ? "pm" : "am"}`;
   }
 
-  const earlyTarget = halfDay ? 3 * 60 + 30 : 7 * 60;
+  const earlyTarget = dayTarget.earlyLeaveMinutes;
 
   let earlyLeaveTimeStr: string;
   if (totalWorkedMinutes >= earlyTarget) {
@@ -330,7 +390,8 @@ export const calculateLeaveTimeInfo = (
 
 export const calculateMetrics = (
   attendanceData: AttendanceData[],
-  halfDay: boolean,
+  dayTarget: DayTarget,
+  policy: WorkPolicy = DEFAULT_WORK_POLICY,
 ): {
   metrics: Metrics;
   totalWorkedMinutes: number;
@@ -338,12 +399,12 @@ export const calculateMetrics = (
   leaveTimeInfo: LeaveTimeInfo | null;
 } => {
   const { totalWorkedMinutes, isClockedIn } =
-    calculateMinutesFromAttendance(attendanceData);
+    calculateMinutesFromAttendance(attendanceData, policy);
 
   if (!attendanceData.length) {
     // Default empty
     return {
-      metrics: generateMetricsFromMinutes(0, halfDay, false),
+      metrics: generateMetricsFromMinutes(0, dayTarget, false),
       totalWorkedMinutes: 0,
       isClockedIn: false,
       leaveTimeInfo: null,
@@ -352,10 +413,10 @@ export const calculateMetrics = (
 
   const metrics = generateMetricsFromMinutes(
     totalWorkedMinutes,
-    halfDay,
+    dayTarget,
     isClockedIn,
   );
-  const leaveTimeInfo = calculateLeaveTimeInfo(totalWorkedMinutes, halfDay);
+  const leaveTimeInfo = calculateLeaveTimeInfo(totalWorkedMinutes, dayTarget);
 
   return {
     metrics,
@@ -370,6 +431,8 @@ export const processMonthlyStats = (
   holidaysData: HolidayResponse | null,
   leaveData: LeaveResponse | null,
   selectedDate: Date = new Date(),
+  policy: WorkPolicy = DEFAULT_WORK_POLICY,
+  plans: DayPlans = {},
 ): MonthlyStats => {
   const now = selectedDate;
   const monthStart = startOfMonth(now);
@@ -413,8 +476,8 @@ export const processMonthlyStats = (
   }
 
   // Calculate Working Days
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  // "Today" follows the current shift day so an overnight shift isn't counted as a past day
+  const today = parseISO(getCurrentShiftDay(attendanceData, policy));
   const allDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
 
   let totalWorkingDaysCount = 0;
@@ -435,7 +498,16 @@ export const processMonthlyStats = (
 
     // Calculate effective working day value (1 for full day, 0.5 for half day, etc.)
     // Ensure strictly non-negative
-    const workingValue = Math.max(0, 1 - leaveDuration);
+    let workingValue = Math.max(0, 1 - leaveDuration);
+
+    // Planned half days/leave on future days that aren't booked in Keka yet
+    const plan = plans[dayStr];
+    if (plan && day > today) {
+      workingValue = Math.min(
+        workingValue,
+        getPlannedDay(plan, policy).workingValue,
+      );
+    }
 
     totalWorkingDaysCount += workingValue;
 
@@ -499,7 +571,11 @@ export const processMonthlyStats = (
         // But for "Today", totalEffectiveHours might be stale if not re-calculated.
         // However, let's use what we have in the entry to be consistent with input.
         // Actually, let's calculate fresh from timeEntries if possible for accuracy.
-        const { totalWorkedMinutes } = calculateMinutesFromAttendance([todayEntry]);
+        const { totalWorkedMinutes } = calculateMinutesFromAttendance(
+          attendanceData,
+          policy,
+          getDayKey(now),
+        );
         if (totalWorkedMinutes > 0) {
           averageHours = totalWorkedMinutes / 60;
         }
@@ -509,8 +585,8 @@ export const processMonthlyStats = (
 
   // Calculate Needed/Day independently of past attendance check
   if (remainingWorkingDaysCount > 0 && totalWorkingDaysCount > 0) {
-    const TARGET_AVERAGE_HOURS = 8.25;
-    const totalHoursNeeded = totalWorkingDaysCount * TARGET_AVERAGE_HOURS;
+    const totalHoursNeeded =
+      totalWorkingDaysCount * getTargetAverageHours(policy);
     const hoursWorkedSoFar = averageHours * currentWorkingDayCount;
 
     // Ensure we don't have negative remaining due to floating point or over-work
@@ -529,20 +605,76 @@ export const processMonthlyStats = (
     remainingWorkingDaysCount,
     averageHours: averageHours || null,
     hoursNeededPerDay: hoursNeededPerDay > 0 ? hoursNeededPerDay : null,
+    leaveDurations: Object.fromEntries(leaveDurations),
   };
 };
 
+// Per-day worked time and status for the selected month, for the calendar heatmap
+export const buildMonthlyCalendar = (
+  attendanceData: AttendanceData[],
+  holidayDates: string[],
+  leaveDurations: Record<string, number>,
+  selectedDate: Date = new Date(),
+  policy: WorkPolicy = DEFAULT_WORK_POLICY,
+): MonthlyCalendarDay[] => {
+  const currentShiftDay = getCurrentShiftDay(attendanceData, policy);
+
+  return eachDayOfInterval({
+    start: startOfMonth(selectedDate),
+    end: endOfMonth(selectedDate),
+  }).map((day) => {
+    const dayStr = format(day, "yyyy-MM-dd");
+    const dayOfWeek = getDay(day);
+    const attendanceDay = findAttendanceDay(attendanceData, dayStr);
+    const isToday = dayStr === currentShiftDay;
+    const isFuture = dayStr > currentShiftDay;
+    const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+    const isHoliday = holidayDates.includes(dayStr);
+    const leaveDays = leaveDurations[dayStr] || 0;
+
+    // Today is still running, so use live punches rather than Keka's total
+    const workedMinutes = isToday
+      ? calculateMinutesFromAttendance(attendanceData, policy, dayStr)
+          .totalWorkedMinutes
+      : Math.round((attendanceDay?.totalEffectiveHours || 0) * 60);
+
+    const isDayOff = isWeekend || isHoliday || leaveDays >= 1;
+    let status: MonthlyCalendarDay["status"] = null;
+    if (!isFuture && (workedMinutes > 0 || !isDayOff)) {
+      const dayTarget = resolveDayTarget(attendanceDay, null, policy);
+      status = generateMetricsFromMinutes(
+        workedMinutes,
+        isDayOff ? { ...dayTarget, targetMinutes: 0 } : dayTarget,
+        false,
+      ).totalWorkedStatus;
+    }
+
+    return {
+      date: dayStr,
+      workedMinutes,
+      status,
+      isWeekend,
+      isHoliday,
+      leaveDays,
+      isToday,
+      isFuture,
+    };
+  });
+};
+
 export const processWeeklyStats = (
   attendanceData: AttendanceData[],
   holidaysData: HolidayResponse | null,
   leaveData: LeaveResponse | null,
-  isManualHalfDay: boolean,
+  halfDayOverride: boolean | null,
   selectedDate: Date = new Date(),
+  policy: WorkPolicy = DEFAULT_WORK_POLICY,
+  plans: DayPlans = {},
 ): WeeklyStats => {
   const now = selectedDate;
   // Use ISO week (Monday start)
-  const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-  const weekEnd = endOfWeek(now, { weekStartsOn: 1 });
+  const weekStart = startOfWeek(now, WEEK_OPTIONS);
+  const weekEnd = endOfWeek(now, WEEK_OPTIONS);
 
   // Process Holidays
   const holidayDates: string[] = [];
@@ -550,7 +682,7 @@ export const processWeeklyStats = (
     holidaysData.data.forEach((holiday) => {
       if (holiday.date) {
         const holidayDate = parseISO(holiday.date);
-        if (isSameWeek(holidayDate, now, { weekStartsOn: 1 })) {
+        if (isSameWeek(holidayDate, now, WEEK_OPTIONS)) {
           holidayDates.push(holiday.date);
         }
       }
@@ -573,7 +705,7 @@ export const processWeeklyStats = (
         leaveEntry.change.duration < 0
       ) {
         const leaveDate = parseISO(leaveEntry.date);
-        if (isSameWeek(leaveDate, now, { weekStartsOn: 1 })) {
+        if (isSameWeek(leaveDate, now, WEEK_OPTIONS)) {
           const duration = Math.abs(leaveEntry.change.duration);
           leaveCount += duration;
           const existing = leaveDurations.get(leaveEntry.date) || 0;
@@ -584,43 +716,91 @@ export const processWeeklyStats = (
   }
 
   // Calculate Working Days & Targets
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const currentShiftDay = getCurrentShiftDay(attendanceData, policy);
+  const today = parseISO(currentShiftDay);
   const allDays = eachDayOfInterval({ start: weekStart, end: weekEnd });
 
   let totalWorkingDaysCount = 0;
   let currentWorkingDayCount = 0;
   let weeklyTargetHours = 0;
+  const fullDayHours = getTargetAverageHours(policy);
+  const dayRows: WeeklyDayStats[] = [];
 
   allDays.forEach((day) => {
     const dayOfWeek = getDay(day);
     const dayStr = format(day, "yyyy-MM-dd");
+    const row: WeeklyDayStats = {
+      date: dayStr,
+      workedHours: 0,
+      targetHours: 0,
+      isWeekend: dayOfWeek === 0 || dayOfWeek === 6,
+      isHoliday: holidayDates.includes(dayStr),
+      isLeave: (leaveDurations.get(dayStr) || 0) > 0,
+      isPlanned: false,
+      isToday: dayStr === currentShiftDay,
+      isFuture: day > today,
+    };
+    dayRows.push(row);
 
     // Skip weekends
-    if (dayOfWeek === 0 || dayOfWeek === 6) return;
+    if (row.isWeekend) return;
 
-    let dayTarget = 8.25; // 8h 15m default
+    let dayTarget = fullDayHours;
+    // Share of the day taken as leave, from one source per day
+    let leaveShare = leaveDurations.get(dayStr) || 0;
 
     if (holidayDates.includes(dayStr)) {
       dayTarget = 0;
     } else {
-      // Deduct leave
-      const leaveDuration = leaveDurations.get(dayStr) || 0;
-      dayTarget -= leaveDuration * 8.25;
-
-      // Manual Half Day check (Today Only)
-      if (isManualHalfDay && isSameDay(day, now)) {
-        // If manual half day, target is 4.5h max
-        if (dayTarget > 4.5) {
-          dayTarget = 4.5;
-        }
+      // The manual override (today only) wins, then approved leave on the attendance day
+      // (half day / hourly), and only then the leave summary
+      const resolvedTarget = resolveDayTarget(
+        findAttendanceDay(attendanceData, dayStr),
+        dayStr === currentShiftDay ? halfDayOverride : null,
+        policy,
+      );
+      const resolvedHours = resolvedTarget.targetMinutes / 60;
+      if (resolvedTarget.source === "manual") {
+        dayTarget = resolvedHours;
+        leaveShare = resolvedTarget.isHalfDay ? 0.5 : 0;
+        row.isLeave = resolvedTarget.isHalfDay;
+      } else if (resolvedTarget.source === "leave") {
+        dayTarget = resolvedHours;
+        // Half days count as half a working day, hourly leave by the time taken off
+        leaveShare = resolvedTarget.isHalfDay
+          ? 0.5
+          : fullDayHours > 0
+            ? 1 - resolvedHours / fullDayHours
+            : 0;
+        row.isLeave = true;
+      } else {
+        dayTarget -= leaveShare * fullDayHours;
       }
     }
 
+    // Planned half days/leave on future days that aren't booked in Keka yet
+    const plan = plans[dayStr];
+    const plannedDay =
+      plan && day > today && !holidayDates.includes(dayStr)
+        ? getPlannedDay(plan, policy)
+        : null;
+    if (plannedDay) {
+      // A custom target replaces the day's target, half days/leave only ever reduce it
+      dayTarget =
+        plan.kind === "custom"
+          ? plannedDay.targetMinutes / 60
+          : Math.min(dayTarget, plannedDay.targetMinutes / 60);
+    }
+
     dayTarget = Math.max(0, dayTarget);
     weeklyTargetHours += dayTarget;
+    row.targetHours = dayTarget;
+    row.isPlanned = !!plannedDay;
 
-    let workingValue = Math.max(0, 1 - (leaveDurations.get(dayStr) || 0));
+    let workingValue = Math.max(0, 1 - leaveShare);
+    if (plannedDay) {
+      workingValue = Math.min(workingValue, plannedDay.workingValue);
+    }
     if (holidayDates.includes(dayStr)) workingValue = 0;
 
     totalWorkingDaysCount += workingValue;
@@ -638,42 +818,34 @@ export const processWeeklyStats = (
   // Calculate Total Worked (including today's real-time)
   let totalWorkedHours = 0;
 
-  // Find today's entry for real-time calculation
-  const todayEntry = attendanceData.find((entry) => {
-    const entryDate = new Date(entry.attendanceDate);
-    return isSameDay(entryDate, now);
-  });
-
-  let todayRealTimeHours = 0;
-  if (todayEntry) {
-    const { totalWorkedMinutes } = calculateMinutesFromAttendance([todayEntry]);
-    todayRealTimeHours = totalWorkedMinutes / 60;
-  }
+  // Current shift day is calculated in real time from punches (it may have started yesterday evening)
+  const { totalWorkedMinutes: currentShiftMinutes } =
+    calculateMinutesFromAttendance(attendanceData, policy, currentShiftDay);
+  const todayRealTimeHours = currentShiftMinutes / 60;
 
   if (attendanceData && attendanceData.length > 0) {
     const weeklyAttendance = attendanceData.filter((entry) => {
       if (!entry.attendanceDate) return false;
       const entryDate = new Date(entry.attendanceDate);
-      return isSameWeek(entryDate, now, { weekStartsOn: 1 });
+      return isSameWeek(entryDate, now, WEEK_OPTIONS);
     });
 
     weeklyAttendance.forEach((entry) => {
       const entryDate = new Date(entry.attendanceDate);
-      if (isSameDay(entryDate, now)) {
+      const row = dayRows.find((r) => r.date === getDayKey(entryDate));
+      if (getDayKey(entryDate) === currentShiftDay) {
         totalWorkedHours += todayRealTimeHours;
+        if (row) row.workedHours = todayRealTimeHours;
       } else {
         if (entry.totalEffectiveHours) {
           totalWorkedHours += entry.totalEffectiveHours;
+          if (row) row.workedHours = entry.totalEffectiveHours;
         }
       }
     });
 
-    // Ensure today is counted if not in array (e.g. if summary is stale/empty for today)
-    // But if todayEntry is undefined, then todayRealTimeHours is 0.
-    // If todayEntry IS defined but somehow not in weeklyAttendance (impossible if filtered correctly),
-    // we're covered.
-    // Edge case: if attendanceData does not have today's entry yet, we might want to Add it?
-    // But we can only calculate it if we have the entry. So we are safe.
+    // Edge case: if attendanceData does not have the current shift day's entry yet,
+    // its live minutes are not added. We can only attribute time to days Keka has returned.
   }
 
   const remainingHours = Math.max(0, weeklyTargetHours - totalWorkedHours);
@@ -688,7 +860,7 @@ export const processWeeklyStats = (
       const entryDate = new Date(entry.attendanceDate);
       // consistent with currentWorkingDayCount: days < today
       return (
-        isSameWeek(entryDate, now, { weekStartsOn: 1 }) && entryDate < today
+        isSameWeek(entryDate, now, WEEK_OPTIONS) && entryDate < today
       );
     });
     pastAttendance.forEach(
@@ -723,5 +895,6 @@ export const processWeeklyStats = (
     weeklyTarget: weeklyTargetHours,
     totalWorked: totalWorkedHours,
     remaining: remainingHours,
+    days: dayRows,
   };
 };
@@ -0,0 +1,47 @@
+import type { ApiError, ApiErrorKind } from "./types";
+import { formatMinutes } from "./calculations";
+
+// Every failed Keka request rejects with this; `detail` says which kind of failure it was
+export class KekaApiError extends Error {
+  constructor(public readonly detail: ApiError, message: string) {
+    super(message);
+    this.name = "KekaApiError";
+  }
+
+  get kind(): ApiErrorKind {
+    return this.detail.kind;
+  }
+}
+
+export const getApiError = (error: unknown): ApiError | null =>
+  error instanceof KekaApiError ? error.detail : null;
+
+export const isApiErrorKind = (error: unknown, kind: ApiErrorKind) =>
+  getApiError(error)?.kind === kind;
+
+// One line for the popup. Unauthorized is handled by the login prompt instead.
+export const describeApiError = (error: unknown): string => {
+  const apiError = getApiError(error);
+  switch (apiError?.kind) {
+    case "unauthorized":
+      return "Your Keka session has expired.";
+    case "offline":
+      return "You're offline. Showing saved history.";
+    case "rate-limited":
+      return apiError.retryAfterMs
+        ? `Keka is limiting requests. Try again in ${formatMinutes(
+            Math.ceil(apiError.retryAfterMs / 60000)
+          )}.`
+        : "Keka is limiting requests. Try again shortly.";
+    case "server":
+      return apiError.status
+        ? `Keka is having problems (${apiError.status}). Try again shortly.`
+        : "Couldn't reach Keka. Try again shortly.";
+    case "client":
+      return `Keka rejected the request (${apiError.status}).`;
+    case "malformed":
+      return "Keka sent a response Kivo couldn't read.";
+    default:
+      return error instanceof Error ? error.message : "Something went wrong.";
+  }
+};
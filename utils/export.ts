@@ -0,0 +1,233 @@
+import {
+  addDays,
+  differenceInMinutes,
+  eachMonthOfInterval,
+  format,
+  getDay,
+  parseISO,
+} from "date-fns";
+import type { AttendanceData, HolidayResponse, WorkPolicy } from "./types";
+import { fetchAttendanceSummary } from "./api";
+import { getCachedHolidays } from "./cache";
+import { archiveAttendanceDays, getArchivedAttendance } from "./archive";
+import {
+  buildShiftSessions,
+  calculateMinutesFromAttendance,
+  calculateTimePairsAndBreaks,
+  findAttendanceDay,
+} from "./calculations";
+import { resolveDayTarget } from "./policy";
+import { getDayKey } from "./period";
+
+export type ExportFormat = "csv" | "json" | "ics";
+
+export interface DailyExportRow {
+  date: string;
+  firstIn: string;
+  lastOut: string;
+  effectiveHours: number;
+  breakMinutes: number;
+  targetMinutes: number;
+  surplusMinutes: number;
+}
+
+const inRange = (day: string, fromDay: string, toDay: string) =>
+  day >= fromDay && day <= toDay;
+
+// Fetches every month in the range from Keka (archiving it), falling back to the local archive
+export const loadAttendanceRange = async (
+  token: string | null,
+  fromDay: string,
+  toDay: string
+): Promise<{ attendanceData: AttendanceData[]; holidayDates: string[] }> => {
+  const holidayDates = new Set<string>();
+
+  if (token) {
+    const months = eachMonthOfInterval({
+      start: parseISO(fromDay),
+      end: parseISO(toDay),
+    });
+    for (const month of months) {
+      const monthStr = format(month, "yyyy-MM-dd");
+      try {
+        const attendanceData = await fetchAttendanceSummary(token, monthStr);
+        if (attendanceData) await archiveAttendanceDays(attendanceData);
+      } catch (error) {
+        console.error(`Failed to fetch attendance for ${monthStr}`, error);
+      }
+      try {
+        const holidays: HolidayResponse | null = await getCachedHolidays(
+          token,
+          monthStr
+        );
+        holidays?.data?.forEach((holiday) => {
+          if (holiday.date) holidayDates.add(holiday.date);
+        });
+      } catch (error) {
+        // Holidays only affect the target column
+      }
+    }
+  }
+
+  // One day either side so sessions crossing midnight at the edges are stitched
+  const attendanceData = await getArchivedAttendance(
+    getDayKey(addDays(parseISO(fromDay), -1)),
+    getDayKey(addDays(parseISO(toDay), 1))
+  );
+  return { attendanceData, holidayDates: [...holidayDates] };
+};
+
+export const buildDailyExportRows = (
+  attendanceData: AttendanceData[],
+  holidayDates: string[],
+  fromDay: string,
+  toDay: string,
+  policy: WorkPolicy
+): DailyExportRow[] =>
+  attendanceData
+    .filter((entry) => !!entry.attendanceDate)
+    .map((entry) => getDayKey(new Date(entry.attendanceDate)))
+    .filter((day) => inRange(day, fromDay, toDay))
+    .sort()
+    .map((day) => {
+      const attendanceDay = findAttendanceDay(attendanceData, day);
+      const { timePairs, breaks, unpairedInEntry } =
+        calculateTimePairsAndBreaks(attendanceData, policy, day);
+      const { totalWorkedMinutes } = calculateMinutesFromAttendance(
+        attendanceData,
+        policy,
+        day
+      );
+
+      const dayOfWeek = getDay(parseISO(day));
+      const isDayOff =
+        dayOfWeek === 0 || dayOfWeek === 6 || holidayDates.includes(day);
+      const targetMinutes = isDayOff
+        ? 0
+        : resolveDayTarget(attendanceDay, null, policy).targetMinutes;
+
+      const lastPair = timePairs[timePairs.length - 1];
+      const firstInTimestamp =
+        timePairs[0]?.startTime ?? unpairedInEntry?.actualTimestamp;
+
+      return {
+        date: day,
+        firstIn: firstInTimestamp
+          ? format(new Date(firstInTimestamp), "HH:mm")
+          : "",
+        lastOut: lastPair ? format(new Date(lastPair.endTime), "HH:mm") : "",
+        effectiveHours: Math.round((totalWorkedMinutes / 60) * 100) / 100,
+        breakMinutes: breaks.reduce(
+          (total, breakItem) =>
+            total +
+            differenceInMinutes(
+              new Date(breakItem.endTime),
+              new Date(breakItem.startTime)
+            ),
+          0
+        ),
+        targetMinutes,
+        surplusMinutes: totalWorkedMinutes - targetMinutes,
+      };
+    });
+
+const escapeCsvValue = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildAttendanceCsv = (rows: DailyExportRow[]): string => {
+  const header = [
+    "date",
+    "first_in",
+    "last_out",
+    "effective_hours",
+    "break_minutes",
+    "target_minutes",
+    "surplus_minutes",
+  ];
+  const lines = rows.map((row) =>
+    [
+      row.date,
+      row.firstIn,
+      row.lastOut,
+      row.effectiveHours,
+      row.breakMinutes,
+      row.targetMinutes,
+      row.surplusMinutes,
+    ]
+      .map(escapeCsvValue)
+      .join(",")
+  );
+  return [header.join(","), ...lines].join("\n");
+};
+
+// Raw punches as Keka returned them, grouped by day
+export const buildPunchJson = (
+  attendanceData: AttendanceData[],
+  fromDay: string,
+  toDay: string
+): string =>
+  JSON.stringify(
+    attendanceData
+      .filter(
+        (entry) =>
+          !!entry.attendanceDate &&
+          inRange(getDayKey(new Date(entry.attendanceDate)), fromDay, toDay)
+      )
+      .map((entry) => ({
+        date: getDayKey(new Date(entry.attendanceDate)),
+        timeEntries: entry.timeEntries,
+      })),
+    null,
+    2
+  );
+
+const toIcsTimestamp = (value: string | Date) =>
+  new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// Completed work sessions as calendar events
+export const buildSessionsIcs = (
+  attendanceData: AttendanceData[],
+  fromDay: string,
+  toDay: string,
+  policy: WorkPolicy
+): string => {
+  const stamp = toIcsTimestamp(new Date());
+  const events = buildShiftSessions(attendanceData, policy)
+    .filter(
+      (session) =>
+        session.endEntry && inRange(session.shiftDay, fromDay, toDay)
+    )
+    .flatMap((session) => [
+      "BEGIN:VEVENT",
+      `UID:${toIcsTimestamp(session.startEntry.actualTimestamp)}-kivo@kivo-time`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${toIcsTimestamp(session.startEntry.actualTimestamp)}`,
+      `DTEND:${toIcsTimestamp(session.endEntry!.actualTimestamp)}`,
+      "SUMMARY:Work session",
+      "END:VEVENT",
+    ]);
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Kivo Time Tracker//EN",
+    ...events,
+    "END:VCALENDAR",
+  ].join("\r\n");
+};
+
+export const downloadFile = (
+  filename: string,
+  content: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,196 @@
+import { browser } from "wxt/browser";
+import type { BadgeMode, ManagedSettings, WorkPolicy } from "./types";
+import { BADGE_MODE_STORAGE_KEY } from "./badge";
+import {
+  DEFAULT_WORK_POLICY,
+  WORK_POLICY_STORAGE_KEY,
+  normalizeWorkPolicy,
+} from "./policy";
+import {
+  NOTIFICATION_RULES_STORAGE_KEY,
+  normalizeNotificationRules,
+} from "./rules";
+import {
+  MANAGED_SETTING_KEYS_KEY,
+  SETTINGS_SYNC_ENABLED_KEY,
+} from "./settings";
+import {
+  PROFILES_STORAGE_KEY,
+  getProfileKeyName,
+  getProfileStorageKey,
+  getProfiles,
+} from "./profiles";
+
+export const MANAGED_LOCK_NOTE = "Set by your organisation";
+
+export const EMPTY_MANAGED_SETTINGS: ManagedSettings = {
+  kekaDomain: null,
+  workPolicy: {},
+  notificationsEnabled: null,
+  badgeMode: null,
+  notificationRules: null,
+  features: { webPunch: true, settingsSync: true, export: true },
+};
+
+// Keys a policy can pin. Profile keys are pinned in every profile, global keys once.
+// Everything else keeps working off storage.local as before.
+const MANAGED_PROFILE_KEYS = [
+  "keka_domain",
+  "notifications_enabled",
+  BADGE_MODE_STORAGE_KEY,
+  WORK_POLICY_STORAGE_KEY,
+  NOTIFICATION_RULES_STORAGE_KEY,
+];
+const MANAGED_GLOBAL_KEYS = ["web_punch_enabled", SETTINGS_SYNC_ENABLED_KEY];
+
+// Adding a profile creates a fresh set of keys the policy has to pin too
+const affectsManagedKeys = (key: string) =>
+  key === PROFILES_STORAGE_KEY ||
+  MANAGED_GLOBAL_KEYS.includes(key) ||
+  MANAGED_PROFILE_KEYS.includes(getProfileKeyName(key));
+
+const isBoolean = (value: unknown): value is boolean =>
+  typeof value === "boolean";
+
+// Mirrors public/managed_schema.json; anything malformed is ignored rather than trusted
+export const normalizeManagedSettings = (value: unknown): ManagedSettings => {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<
+    string,
+    unknown
+  >;
+
+  const workPolicy: Partial<WorkPolicy> = {};
+  if (raw.workPolicy && typeof raw.workPolicy === "object") {
+    const policy = raw.workPolicy as Record<string, unknown>;
+    (Object.keys(DEFAULT_WORK_POLICY) as (keyof WorkPolicy)[]).forEach(
+      (key) => {
+        const field = policy[key];
+        if (typeof field === "number" && Number.isFinite(field) && field >= 0) {
+          workPolicy[key] = Math.round(field);
+        }
+      }
+    );
+  }
+
+  return {
+    kekaDomain:
+      typeof raw.kekaDomain === "string" && raw.kekaDomain.trim()
+        ? raw.kekaDomain.trim()
+        : null,
+    workPolicy,
+    notificationsEnabled: isBoolean(raw.notificationsEnabled)
+      ? raw.notificationsEnabled
+      : null,
+    badgeMode: (["remaining", "worked", "off"] as BadgeMode[]).includes(
+      raw.badgeMode as BadgeMode
+    )
+      ? (raw.badgeMode as BadgeMode)
+      : null,
+    // Policies can't express null, so optional rule fields are simply left out
+    notificationRules: Array.isArray(raw.notificationRules)
+      ? normalizeNotificationRules(
+          raw.notificationRules.map((rule) => ({
+            enabled: true,
+            min: null,
+            max: null,
+            requireClockedIn: false,
+            repeatEveryMinutes: null,
+            title: "Kivo",
+            ...(rule && typeof rule === "object" ? rule : {}),
+          }))
+        )
+      : null,
+    features: {
+      webPunch: raw.allowWebPunch !== false,
+      settingsSync: raw.allowSettingsSync !== false,
+      export: raw.allowExport !== false,
+    },
+  };
+};
+
+// Browsers without a policy (or without managed storage at all) behave as unmanaged
+export const getManagedSettings = async (): Promise<ManagedSettings> => {
+  try {
+    return normalizeManagedSettings(await browser.storage.managed.get(null));
+  } catch (error) {
+    return EMPTY_MANAGED_SETTINGS;
+  }
+};
+
+// The storage.local values the policy requires, given what is stored now
+const getManagedLocalValues = (
+  managed: ManagedSettings,
+  local: Record<string, unknown>
+): Record<string, unknown> => {
+  const values: Record<string, unknown> = {};
+  if (managed.kekaDomain !== null) values.keka_domain = managed.kekaDomain;
+  if (managed.notificationsEnabled !== null) {
+    values.notifications_enabled = managed.notificationsEnabled;
+  }
+  if (managed.badgeMode !== null) {
+    values[BADGE_MODE_STORAGE_KEY] = managed.badgeMode;
+  }
+  if (Object.keys(managed.workPolicy).length > 0) {
+    values[WORK_POLICY_STORAGE_KEY] = {
+      ...normalizeWorkPolicy(local[WORK_POLICY_STORAGE_KEY]),
+      ...managed.workPolicy,
+    };
+  }
+  if (managed.notificationRules !== null) {
+    values[NOTIFICATION_RULES_STORAGE_KEY] = managed.notificationRules;
+  }
+  if (!managed.features.webPunch) values.web_punch_enabled = false;
+  if (!managed.features.settingsSync) {
+    values[SETTINGS_SYNC_ENABLED_KEY] = false;
+  }
+  return values;
+};
+
+// Writes managed values into storage.local so the popup and background pick them up unchanged.
+// Only differing keys are written, so it is safe to call from a storage listener.
+export const applyManagedSettings = async (
+  changedKeys?: string[]
+): Promise<void> => {
+  if (changedKeys && !changedKeys.some(affectsManagedKeys)) {
+    return;
+  }
+
+  const managed = await getManagedSettings();
+  const profileIds = (await getProfiles()).map((profile) => profile.id);
+  const local = await browser.storage.local.get([
+    ...MANAGED_GLOBAL_KEYS,
+    ...profileIds.flatMap((profileId) =>
+      MANAGED_PROFILE_KEYS.map((name) => getProfileStorageKey(profileId, name))
+    ),
+    MANAGED_SETTING_KEYS_KEY,
+  ]);
+
+  // Each profile is checked against its own values, e.g. to keep its unpinned policy fields
+  const required: Record<string, unknown> = {};
+  profileIds.forEach((profileId) => {
+    const profileLocal: Record<string, unknown> = {};
+    MANAGED_PROFILE_KEYS.forEach((name) => {
+      profileLocal[name] = local[getProfileStorageKey(profileId, name)];
+    });
+    Object.entries(getManagedLocalValues(managed, profileLocal)).forEach(
+      ([name, value]) => {
+        const key = MANAGED_PROFILE_KEYS.includes(name)
+          ? getProfileStorageKey(profileId, name)
+          : name;
+        required[key] = value;
+      }
+    );
+  });
+  // Written together with the values so settings sync never sees them as local edits
+  required[MANAGED_SETTING_KEYS_KEY] = Object.keys(required).sort();
+  const updates: Record<string, unknown> = {};
+  Object.entries(required).forEach(([key, value]) => {
+    if (JSON.stringify(local[key]) !== JSON.stringify(value)) {
+      updates[key] = value;
+    }
+  });
+
+  if (Object.keys(updates).length > 0) {
+    await browser.storage.local.set(updates);
+  }
+};
@@ -0,0 +1,100 @@
+import { browser, type Browser } from "wxt/browser";
+import type {
+  KivoMessage,
+  MessageError,
+  MessageRequests,
+  MessageResponse,
+  MessageResponses,
+  MessageType,
+} from "./types";
+
+// Bump when a message's payload or response changes shape
+export const MESSAGE_PROTOCOL_VERSION = 1;
+
+const MESSAGE_TYPES: MessageType[] = [
+  "FORCE_CHECK",
+  "TOKEN_CAPTURED",
+  "GET_STATUS",
+  "SET_HALF_DAY",
+  "REFRESH_CACHES",
+];
+
+export type MessageHandlers = {
+  [T in MessageType]?: (
+    message: Extract<KivoMessage, { type: T }>,
+    sender: Browser.runtime.MessageSender
+  ) => Promise<MessageResponses[T]> | MessageResponses[T];
+};
+
+const isKivoMessage = (message: unknown): message is KivoMessage =>
+  !!message &&
+  typeof message === "object" &&
+  MESSAGE_TYPES.includes((message as KivoMessage).type);
+
+const toMessageError = (error: unknown): MessageError => ({
+  code: "failed",
+  message: error instanceof Error ? error.message : String(error),
+});
+
+// Resolves with the handler's result and rejects with its error message
+export const sendMessage = async <T extends MessageType>(
+  type: T,
+  ...[payload]: {} extends MessageRequests[T]
+    ? [payload?: MessageRequests[T]]
+    : [payload: MessageRequests[T]]
+): Promise<MessageResponses[T]> => {
+  const response = (await browser.runtime.sendMessage({
+    ...payload,
+    version: MESSAGE_PROTOCOL_VERSION,
+    type,
+  })) as MessageResponse<T> | undefined;
+
+  if (!response) {
+    throw new Error(`No response to ${type}`);
+  }
+  if (!response.ok) {
+    throw new Error(response.error.message);
+  }
+  return response.data;
+};
+
+// Answers the message types this entrypoint has handlers for and leaves the rest to other listeners
+export const handleMessages = (handlers: MessageHandlers) => {
+  const listener = (
+    message: unknown,
+    sender: Browser.runtime.MessageSender,
+    sendResponse: (response: MessageResponse<MessageType>) => void
+  ) => {
+    if (!isKivoMessage(message)) return false;
+    const handler = handlers[message.type] as
+      | ((
+          message: KivoMessage,
+          sender: Browser.runtime.MessageSender
+        ) => unknown)
+      | undefined;
+    if (!handler) return false;
+
+    if (message.version !== MESSAGE_PROTOCOL_VERSION) {
+      sendResponse({
+        ok: false,
+        error: {
+          code: "unsupported-version",
+          message: `Expected message version ${MESSAGE_PROTOCOL_VERSION}, got ${message.version}`,
+        },
+      });
+      return false;
+    }
+
+    Promise.resolve()
+      .then(() => handler(message, sender))
+      .then((data) =>
+        sendResponse({ ok: true, data: (data ?? null) as MessageResponses[MessageType] })
+      )
+      .catch((error) => sendResponse({ ok: false, error: toMessageError(error) }));
+    // Keep the channel open for the async response
+    return true;
+  };
+
+  browser.runtime.onMessage.addListener(listener);
+  return () => browser.runtime.onMessage.removeListener(listener);
+};
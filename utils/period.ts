@@ -0,0 +1,24 @@
+import { format, startOfWeek, subMinutes } from "date-fns";
+import type { WorkPolicy } from "./types";
+
+// Weeks start on Monday everywhere (Weekly tab, weekly stats and per-week storage keys)
+export const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+// Local calendar date (yyyy-MM-dd); rolls over at local midnight, unlike toISOString()
+export const getDayKey = (date: Date = new Date()): string =>
+  format(date, "yyyy-MM-dd");
+
+// Identifies the Monday-start week containing the date, e.g. "week_2025-01-06"
+export const getWeekKey = (date: Date = new Date()): string =>
+  `week_${format(startOfWeek(date, WEEK_OPTIONS), "yyyy-MM-dd")}`;
+
+// Shift day a moment belongs to; anything before the policy's shift day start counts towards the previous day
+export const getShiftDayKey = (date: Date, policy: WorkPolicy): string =>
+  getDayKey(subMinutes(date, policy.shiftDayStartMinutes));
+
+// Calendar month (yyyy-MM) the date falls in
+export const getMonthKey = (date: Date = new Date()): string =>
+  format(date, "yyyy-MM");
+
+export const getHalfDayKey = (day: string = getDayKey()): string =>
+  `halfDay_${day}`;
@@ -0,0 +1,68 @@
+import type { DayPlan, DayPlans, WorkPolicy } from "./types";
+import { getDayKey } from "./period";
+import { resolveProfileStorage } from "./profiles";
+
+export const DAY_PLANS_STORAGE_KEY = "day_plans";
+
+const isDayPlan = (value: unknown): value is DayPlan => {
+  if (!value || typeof value !== "object") return false;
+  const plan = value as DayPlan;
+  if (plan.kind === "custom") {
+    return typeof plan.targetMinutes === "number" && plan.targetMinutes >= 0;
+  }
+  return plan.kind === "half-day" || plan.kind === "leave";
+};
+
+export const normalizeDayPlans = (value: unknown): DayPlans => {
+  const plans: DayPlans = {};
+  if (!value || typeof value !== "object") return plans;
+
+  Object.entries(value as Record<string, unknown>).forEach(([day, plan]) => {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(day) && isDayPlan(plan)) {
+      plans[day] = plan;
+    }
+  });
+  return plans;
+};
+
+// Plans belong to one Keka account; omitting the id uses the active profile
+export const getDayPlans = async (profileId?: string): Promise<DayPlans> => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  const result = await profileStorage.get(DAY_PLANS_STORAGE_KEY);
+  return normalizeDayPlans(result[DAY_PLANS_STORAGE_KEY]);
+};
+
+// Plans for days that have already passed are dropped, Keka is the source of truth by then
+export const saveDayPlans = async (
+  plans: DayPlans,
+  profileId?: string
+): Promise<void> => {
+  const today = getDayKey();
+  const upcoming: DayPlans = {};
+  Object.entries(normalizeDayPlans(plans)).forEach(([day, plan]) => {
+    if (day >= today) upcoming[day] = plan;
+  });
+  const profileStorage = await resolveProfileStorage(profileId);
+  await profileStorage.set({ [DAY_PLANS_STORAGE_KEY]: upcoming });
+};
+
+// Target minutes and working-day value (1 = full day) a plan implies
+export const getPlannedDay = (
+  plan: DayPlan,
+  policy: WorkPolicy,
+): { targetMinutes: number; workingValue: number } => {
+  switch (plan.kind) {
+    case "leave":
+      return { targetMinutes: 0, workingValue: 0 };
+    case "half-day":
+      return { targetMinutes: policy.halfDayTargetMinutes, workingValue: 0.5 };
+    case "custom": {
+      const targetMinutes = plan.targetMinutes ?? policy.dailyTargetMinutes;
+      const workingValue =
+        policy.dailyTargetMinutes > 0
+          ? Math.min(1, targetMinutes / policy.dailyTargetMinutes)
+          : 1;
+      return { targetMinutes, workingValue };
+    }
+  }
+};
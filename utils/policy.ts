@@ -0,0 +1,212 @@
+import { differenceInMinutes } from "date-fns";
+import type {
+  AttendanceData,
+  DayTarget,
+  LeaveDetail,
+  ResolvedDayTarget,
+  WorkPolicy,
+} from "./types";
+import { resolveProfileStorage } from "./profiles";
+
+export const WORK_POLICY_STORAGE_KEY = "work_policy";
+
+// Matches the original hardcoded 8h 15m / 4h 30m policy
+export const DEFAULT_WORK_POLICY: WorkPolicy = {
+  dailyTargetMinutes: 8 * 60 + 15,
+  halfDayTargetMinutes: 4 * 60 + 30,
+  dailyMaxAcceptableMinutes: 8 * 60 + 30,
+  halfDayMaxAcceptableMinutes: 4 * 60 + 45,
+  earlyLeaveMinutes: 7 * 60,
+  halfDayEarlyLeaveMinutes: 3 * 60 + 30,
+  longSessionAlertMinutes: 9 * 60,
+  shiftDayStartMinutes: 0,
+  maxSessionMinutes: 12 * 60,
+  workHoursStartMinutes: 9 * 60,
+  workHoursEndMinutes: 20 * 60,
+};
+
+// Fill in missing or invalid fields from the defaults so older/partial data stays usable
+export const normalizeWorkPolicy = (value: unknown): WorkPolicy => {
+  const stored = (value && typeof value === "object" ? value : {}) as Partial<
+    Record<keyof WorkPolicy, unknown>
+  >;
+  const policy = { ...DEFAULT_WORK_POLICY };
+
+  (Object.keys(DEFAULT_WORK_POLICY) as (keyof WorkPolicy)[]).forEach((key) => {
+    const field = stored[key];
+    if (typeof field === "number" && Number.isFinite(field) && field >= 0) {
+      policy[key] = Math.round(field);
+    }
+  });
+
+  return policy;
+};
+
+// Each profile has its own policy; omitting the id uses the active profile
+export const getWorkPolicy = async (profileId?: string): Promise<WorkPolicy> => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  const result = await profileStorage.get(WORK_POLICY_STORAGE_KEY);
+  return normalizeWorkPolicy(result[WORK_POLICY_STORAGE_KEY]);
+};
+
+export const saveWorkPolicy = async (
+  policy: WorkPolicy,
+  profileId?: string
+): Promise<void> => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  await profileStorage.set({
+    [WORK_POLICY_STORAGE_KEY]: normalizeWorkPolicy(policy),
+  });
+};
+
+export const getDayTarget = (
+  policy: WorkPolicy,
+  isHalfDay: boolean,
+): DayTarget => {
+  if (isHalfDay) {
+    return {
+      targetMinutes: policy.halfDayTargetMinutes,
+      maxAcceptableMinutes: policy.halfDayMaxAcceptableMinutes,
+      earlyLeaveMinutes: policy.halfDayEarlyLeaveMinutes,
+      isHalfDay: true,
+    };
+  }
+
+  return {
+    targetMinutes: policy.dailyTargetMinutes,
+    maxAcceptableMinutes: policy.dailyMaxAcceptableMinutes,
+    earlyLeaveMinutes: policy.earlyLeaveMinutes,
+    isHalfDay: false,
+  };
+};
+
+// Average hours per working day that the monthly/weekly targets are measured against
+export const getTargetAverageHours = (policy: WorkPolicy): number =>
+  policy.dailyTargetMinutes / 60;
+
+// Keka's leaveDayStatus values on AttendanceData.leaveDayStatuses / leaveDetails
+export const LEAVE_DAY_STATUS = {
+  None: 0,
+  FullDay: 1,
+  FirstHalf: 2,
+  SecondHalf: 3,
+} as const;
+
+// Keka's approval states for a leave request
+export const LEAVE_REQUEST_STATUS = {
+  Pending: 0,
+  Approved: 1,
+  Rejected: 2,
+  Cancelled: 3,
+} as const;
+
+// Details without a status come from responses that only list booked leave
+const isApprovedLeave = (detail: LeaveDetail) =>
+  detail.leaveStatus === undefined ||
+  detail.leaveStatus === LEAVE_REQUEST_STATUS.Approved;
+
+const LEAVE_STATUS_LABELS: Record<number, string> = {
+  [LEAVE_DAY_STATUS.FullDay]: "Full day leave",
+  [LEAVE_DAY_STATUS.FirstHalf]: "First half leave",
+  [LEAVE_DAY_STATUS.SecondHalf]: "Second half leave",
+};
+
+const isHalfDayStatus = (status: number) =>
+  status === LEAVE_DAY_STATUS.FirstHalf ||
+  status === LEAVE_DAY_STATUS.SecondHalf;
+
+// Minutes covered by an hourly leave, or 0 when the detail has no time range
+const getHourlyLeaveMinutes = (detail: LeaveDetail): number => {
+  if (!detail.startTime || !detail.endTime) return 0;
+  const minutes = differenceInMinutes(
+    new Date(detail.endTime),
+    new Date(detail.startTime),
+  );
+  return Number.isFinite(minutes) ? Math.max(0, minutes) : 0;
+};
+
+// Resolve a day's target: a manual override wins, then approved leave in Keka, then the policy default
+export const resolveDayTarget = (
+  attendanceDay: AttendanceData | undefined,
+  halfDayOverride: boolean | null,
+  policy: WorkPolicy,
+): ResolvedDayTarget => {
+  if (halfDayOverride !== null) {
+    return {
+      ...getDayTarget(policy, halfDayOverride),
+      source: "manual",
+      sourceDetail: null,
+    };
+  }
+
+  const allDetails = attendanceDay?.leaveDetails ?? [];
+  const details = allDetails.filter(isApprovedLeave);
+  // The bare statuses say nothing about approval, so they only count when Keka sent no details
+  const statuses =
+    allDetails.length > 0 ? [] : (attendanceDay?.leaveDayStatuses ?? []);
+
+  const fullDayLeave = details.find(
+    (detail) => detail.leaveDayStatus === LEAVE_DAY_STATUS.FullDay,
+  );
+  if (fullDayLeave || statuses.includes(LEAVE_DAY_STATUS.FullDay)) {
+    return {
+      targetMinutes: 0,
+      maxAcceptableMinutes: 0,
+      earlyLeaveMinutes: 0,
+      isHalfDay: false,
+      source: "leave",
+      sourceDetail: fullDayLeave
+        ? `${LEAVE_STATUS_LABELS[LEAVE_DAY_STATUS.FullDay]} (${fullDayLeave.leaveTypeName})`
+        : LEAVE_STATUS_LABELS[LEAVE_DAY_STATUS.FullDay],
+    };
+  }
+
+  const halfDayLeave = details.find((detail) =>
+    isHalfDayStatus(detail.leaveDayStatus),
+  );
+  if (halfDayLeave || statuses.some(isHalfDayStatus)) {
+    const status = halfDayLeave
+      ? halfDayLeave.leaveDayStatus
+      : statuses.find(isHalfDayStatus)!;
+    return {
+      ...getDayTarget(policy, true),
+      source: "leave",
+      sourceDetail: halfDayLeave
+        ? `${LEAVE_STATUS_LABELS[status]} (${halfDayLeave.leaveTypeName})`
+        : LEAVE_STATUS_LABELS[status],
+    };
+  }
+
+  // Hourly leave reduces the full day target by the time taken off
+  const hourlyLeaves = details.filter(
+    (detail) => getHourlyLeaveMinutes(detail) > 0,
+  );
+  if (hourlyLeaves.length > 0) {
+    const leaveMinutes = hourlyLeaves.reduce(
+      (sum, detail) => sum + getHourlyLeaveMinutes(detail),
+      0,
+    );
+    const fullDay = getDayTarget(policy, false);
+    const hours = Math.floor(leaveMinutes / 60);
+    const minutes = leaveMinutes % 60;
+    return {
+      targetMinutes: Math.max(0, fullDay.targetMinutes - leaveMinutes),
+      maxAcceptableMinutes: Math.max(
+        0,
+        fullDay.maxAcceptableMinutes - leaveMinutes,
+      ),
+      earlyLeaveMinutes: Math.max(0, fullDay.earlyLeaveMinutes - leaveMinutes),
+      isHalfDay: false,
+      source: "leave",
+      sourceDetail: `${hours}h ${minutes}m hourly leave (${hourlyLeaves
+        .map((detail) => detail.leaveTypeName)
+        .join(", ")})`,
+    };
+  }
+
+  return {
+    ...getDayTarget(policy, false),
+    source: "default",
+    sourceDetail: null,
+  };
+};
@@ -0,0 +1,150 @@
+import { browser } from "wxt/browser";
+import type { Profile, ProfileStorage } from "./types";
+
+export const PROFILES_STORAGE_KEY = "profiles";
+export const ACTIVE_PROFILE_STORAGE_KEY = "active_profile_id";
+
+// Existing installs become the default profile, so its data keeps the unprefixed keys
+export const DEFAULT_PROFILE_ID = "default";
+const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: "Main" };
+
+export const getProfileStorageKey = (profileId: string, key: string) =>
+  profileId === DEFAULT_PROFILE_ID ? key : `profile_${profileId}__${key}`;
+
+// Setting name behind a storage key, whichever profile it belongs to
+export const getProfileKeyName = (key: string) =>
+  key.replace(/^profile_[^_]+__/, "");
+
+export const getProfileStorage = (profileId: string): ProfileStorage => {
+  const key = (name: string) => getProfileStorageKey(profileId, name);
+  const toArray = (keys: string | string[]) =>
+    Array.isArray(keys) ? keys : [keys];
+
+  return {
+    profileId,
+    key,
+    get: async (keys) => {
+      const names = toArray(keys);
+      const result = await browser.storage.local.get(names.map(key));
+      const values: Record<string, unknown> = {};
+      names.forEach((name) => {
+        if (key(name) in result) values[name] = result[key(name)];
+      });
+      return values;
+    },
+    set: async (values) => {
+      const prefixed: Record<string, unknown> = {};
+      Object.entries(values).forEach(([name, value]) => {
+        prefixed[key(name)] = value;
+      });
+      await browser.storage.local.set(prefixed);
+    },
+    remove: async (keys) => {
+      await browser.storage.local.remove(toArray(keys).map(key));
+    },
+  };
+};
+
+const normalizeProfiles = (value: unknown): Profile[] => {
+  const stored = Array.isArray(value)
+    ? value.filter(
+        (profile): profile is Profile =>
+          !!profile &&
+          typeof profile.id === "string" &&
+          typeof profile.name === "string"
+      )
+    : [];
+  const defaultProfile =
+    stored.find((profile) => profile.id === DEFAULT_PROFILE_ID) ??
+    DEFAULT_PROFILE;
+  return [
+    defaultProfile,
+    ...stored.filter((profile) => profile.id !== DEFAULT_PROFILE_ID),
+  ];
+};
+
+// Always starts with the default profile
+export const getProfiles = async (): Promise<Profile[]> => {
+  const result = await browser.storage.local.get(PROFILES_STORAGE_KEY);
+  return normalizeProfiles(result[PROFILES_STORAGE_KEY]);
+};
+
+const saveProfiles = async (profiles: Profile[]) => {
+  await browser.storage.local.set({
+    [PROFILES_STORAGE_KEY]: normalizeProfiles(profiles),
+  });
+};
+
+export const getActiveProfileId = async (): Promise<string> => {
+  const result = await browser.storage.local.get([
+    PROFILES_STORAGE_KEY,
+    ACTIVE_PROFILE_STORAGE_KEY,
+  ]);
+  const activeId = result[ACTIVE_PROFILE_STORAGE_KEY];
+  const exists = normalizeProfiles(result[PROFILES_STORAGE_KEY]).some(
+    (profile) => profile.id === activeId
+  );
+  return exists ? (activeId as string) : DEFAULT_PROFILE_ID;
+};
+
+// Storage for the given profile, or the one shown in the popup when omitted
+export const resolveProfileStorage = async (
+  profileId?: string
+): Promise<ProfileStorage> =>
+  getProfileStorage(profileId ?? (await getActiveProfileId()));
+
+export const setActiveProfileId = async (profileId: string) => {
+  await browser.storage.local.set({ [ACTIVE_PROFILE_STORAGE_KEY]: profileId });
+};
+
+// Notification preferences a new account starts from, copied from the main account so it is
+// monitored the same way until changed. Plain keys keep this module free of feature imports.
+const INHERITED_PREFERENCE_KEYS = [
+  "notifications_enabled",
+  "badge_mode",
+  "notification_rules",
+  "token_expiry_warning_minutes",
+];
+
+export const addProfile = async (
+  name: string,
+  domain: string
+): Promise<Profile> => {
+  const profile: Profile = {
+    id: Date.now().toString(36),
+    name: name.trim() || domain,
+  };
+  const inherited = await getProfileStorage(DEFAULT_PROFILE_ID).get(
+    INHERITED_PREFERENCE_KEYS
+  );
+  await getProfileStorage(profile.id).set({ ...inherited, keka_domain: domain });
+  await saveProfiles([...(await getProfiles()), profile]);
+  return profile;
+};
+
+export const renameProfile = async (profileId: string, name: string) => {
+  if (!name.trim()) return;
+  const profiles = await getProfiles();
+  await saveProfiles(
+    profiles.map((profile) =>
+      profile.id === profileId ? { ...profile, name: name.trim() } : profile
+    )
+  );
+};
+
+// Drops the profile and everything stored under its prefix. The default profile can't be removed.
+export const removeProfile = async (profileId: string) => {
+  if (profileId === DEFAULT_PROFILE_ID) return;
+
+  if ((await getActiveProfileId()) === profileId) {
+    await setActiveProfileId(DEFAULT_PROFILE_ID);
+  }
+  const profiles = await getProfiles();
+  await saveProfiles(profiles.filter((profile) => profile.id !== profileId));
+
+  const prefix = getProfileStorageKey(profileId, "");
+  const all = await browser.storage.local.get(null);
+  await browser.storage.local.remove(
+    Object.keys(all).filter((key) => key.startsWith(prefix))
+  );
+};
@@ -0,0 +1,240 @@
+import { format } from "date-fns";
+import type { NotificationRule, RuleContext, RuleMetric } from "./types";
+import { formatMinutes } from "./calculations";
+import { resolveProfileStorage } from "./profiles";
+
+export const NOTIFICATION_RULES_STORAGE_KEY = "notification_rules";
+
+export const RULE_METRIC_LABELS: Record<RuleMetric, string> = {
+  worked: "Worked time",
+  remaining: "Remaining to target",
+  overtime: "Overtime",
+  overAverage: "Worked beyond needed average",
+  overLongSession: "Beyond long session alert",
+  timeOfDay: "Time of day",
+};
+
+export const RULE_PLACEHOLDERS = [
+  "{worked}",
+  "{remaining}",
+  "{overtime}",
+  "{target}",
+  "{dailyTarget}",
+  "{longSession}",
+  "{leaveTime}",
+  "{earlyLeaveTime}",
+  "{time}",
+  "{dayType}",
+];
+
+// The checks the background used to hardcode, expressed as rules
+export const DEFAULT_NOTIFICATION_RULES: NotificationRule[] = [
+  {
+    id: "completion",
+    name: "Target completed",
+    enabled: true,
+    metric: "remaining",
+    min: null,
+    max: 0,
+    requireClockedIn: false,
+    repeatEveryMinutes: null,
+    title: "Work Target Completed! 🎯",
+    message: "You've completed your {dayType} target ({target})! 🎉",
+  },
+  {
+    id: "average-target",
+    name: "Daily average met",
+    enabled: true,
+    metric: "overAverage",
+    min: 0,
+    max: null,
+    requireClockedIn: false,
+    repeatEveryMinutes: null,
+    title: "Daily Average Met! 🌟",
+    message:
+      "Great job today! 🎉 You’ve already hit your daily average. Feel free to wrap up whenever you’re ready — your monthly {dailyTarget} average is still on track! 🥳",
+  },
+  {
+    id: "overtime",
+    name: "Overtime",
+    enabled: true,
+    metric: "overtime",
+    min: 30,
+    max: null,
+    requireClockedIn: false,
+    repeatEveryMinutes: 30,
+    title: "Overtime Alert! ⏰",
+    message:
+      "You've worked {overtime} overtime. Consider taking a break or logging out.",
+  },
+  {
+    id: "long-session",
+    name: "Long work session",
+    enabled: true,
+    metric: "overLongSession",
+    min: 0,
+    max: null,
+    requireClockedIn: true,
+    repeatEveryMinutes: null,
+    title: "Long Work Session Alert! ⚠️",
+    message:
+      "You've been clocked in for {longSession}+. Remember to take breaks and prioritize your well-being!",
+  },
+  {
+    id: "lunch-break",
+    name: "Lunch break",
+    enabled: true,
+    metric: "timeOfDay",
+    min: 12 * 60 + 30,
+    max: 12 * 60 + 59,
+    requireClockedIn: true,
+    repeatEveryMinutes: null,
+    title: "Lunch Break! 🥗",
+    message: "It's 12:30 PM. Time to grab some lunch and recharge! 🍱",
+  },
+  {
+    id: "tea-break",
+    name: "Tea break",
+    enabled: true,
+    metric: "timeOfDay",
+    min: 16 * 60,
+    max: null,
+    requireClockedIn: true,
+    repeatEveryMinutes: null,
+    title: "Tea Break! ☕",
+    message: "It's 4:00 PM. Take a short break for tea/coffee! 🫖",
+  },
+  {
+    id: "leave-approaching",
+    name: "Leave time approaching",
+    enabled: true,
+    metric: "remaining",
+    min: 1,
+    max: 30,
+    requireClockedIn: true,
+    repeatEveryMinutes: null,
+    title: "Leave Time Approaching! 🏠",
+    message:
+      "Your leave time ({leaveTime}) is approaching. Start wrapping up your work.",
+  },
+];
+
+const isNullableNumber = (value: unknown): value is number | null =>
+  value === null || (typeof value === "number" && Number.isFinite(value));
+
+const isNotificationRule = (value: unknown): value is NotificationRule => {
+  if (!value || typeof value !== "object") return false;
+  const rule = value as NotificationRule;
+  return (
+    typeof rule.id === "string" &&
+    typeof rule.name === "string" &&
+    typeof rule.enabled === "boolean" &&
+    rule.metric in RULE_METRIC_LABELS &&
+    isNullableNumber(rule.min) &&
+    isNullableNumber(rule.max) &&
+    typeof rule.requireClockedIn === "boolean" &&
+    isNullableNumber(rule.repeatEveryMinutes) &&
+    typeof rule.title === "string" &&
+    typeof rule.message === "string"
+  );
+};
+
+// Nothing stored yet means the defaults; invalid entries are dropped
+export const normalizeNotificationRules = (
+  value: unknown
+): NotificationRule[] => {
+  if (!Array.isArray(value)) return DEFAULT_NOTIFICATION_RULES;
+  return value.filter(isNotificationRule);
+};
+
+// Each profile has its own rules; omitting the id uses the active profile
+export const getNotificationRules = async (
+  profileId?: string
+): Promise<NotificationRule[]> => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  const result = await profileStorage.get(NOTIFICATION_RULES_STORAGE_KEY);
+  return normalizeNotificationRules(result[NOTIFICATION_RULES_STORAGE_KEY]);
+};
+
+export const saveNotificationRules = async (
+  rules: NotificationRule[],
+  profileId?: string
+): Promise<void> => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  await profileStorage.set({
+    [NOTIFICATION_RULES_STORAGE_KEY]: normalizeNotificationRules(rules),
+  });
+};
+
+// Current value of a metric in minutes, or null when it doesn't apply right now
+export const getRuleMetricValue = (
+  metric: RuleMetric,
+  context: RuleContext
+): number | null => {
+  const { workedMinutes, targetMinutes, hoursNeededPerDay, workPolicy, now } =
+    context;
+
+  switch (metric) {
+    case "worked":
+      return workedMinutes;
+    case "remaining":
+      // Nothing to count down to on a full day leave
+      return targetMinutes > 0 ? targetMinutes - workedMinutes : null;
+    case "overtime":
+      return workedMinutes - targetMinutes;
+    case "overAverage":
+      // Only meaningful when the monthly average lets you leave before the daily target
+      if (
+        hoursNeededPerDay === null ||
+        hoursNeededPerDay * 60 >= workPolicy.dailyTargetMinutes
+      ) {
+        return null;
+      }
+      return workedMinutes - Math.ceil(hoursNeededPerDay * 60);
+    case "overLongSession":
+      return workedMinutes - workPolicy.longSessionAlertMinutes;
+    case "timeOfDay":
+      return now.getHours() * 60 + now.getMinutes();
+  }
+};
+
+// Which occurrence of the rule the context is in (1 for the first), or null if it doesn't match
+export const getRuleStep = (
+  rule: NotificationRule,
+  context: RuleContext
+): number | null => {
+  if (!rule.enabled) return null;
+  if (rule.requireClockedIn && !context.isClockedIn) return null;
+
+  const value = getRuleMetricValue(rule.metric, context);
+  if (value === null) return null;
+  if (rule.min !== null && value < rule.min) return null;
+  if (rule.max !== null && value > rule.max) return null;
+
+  if (!rule.repeatEveryMinutes || rule.repeatEveryMinutes <= 0) return 1;
+  return Math.floor((value - (rule.min ?? 0)) / rule.repeatEveryMinutes) + 1;
+};
+
+export const renderRuleTemplate = (
+  template: string,
+  context: RuleContext
+): string => {
+  const { workedMinutes, targetMinutes, workPolicy, leaveTimeInfo } = context;
+  const values: Record<string, string> = {
+    worked: formatMinutes(workedMinutes),
+    remaining: formatMinutes(Math.max(0, targetMinutes - workedMinutes)),
+    overtime: formatMinutes(Math.max(0, workedMinutes - targetMinutes)),
+    target: formatMinutes(targetMinutes),
+    dailyTarget: formatMinutes(workPolicy.dailyTargetMinutes),
+    longSession: formatMinutes(workPolicy.longSessionAlertMinutes),
+    leaveTime: leaveTimeInfo?.normalLeaveTime ?? "-",
+    earlyLeaveTime: leaveTimeInfo?.earlyLeaveTime ?? "-",
+    time: format(context.now, "h:mm a"),
+    dayType: context.isHalfDay ? "half day" : "full day",
+  };
+
+  // Unknown placeholders are left as typed so mistakes are visible
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? values[name] : match
+  );
+};
@@ -0,0 +1,51 @@
+import type { PollOutcome, WorkPolicy } from "./types";
+
+export const CHECK_METRICS_ALARM = "CHECK_METRICS";
+
+// Polling intervals in minutes
+export const POLL_INTERVALS = {
+  clockedIn: 1,
+  workingHours: 5,
+  offHours: 30,
+  signedOut: 15,
+  // Coming back online triggers a check right away, this is only a fallback
+  offline: 15,
+  maxBackoff: 30,
+} as const;
+
+// Handles windows that wrap past midnight (e.g. 22:00 - 07:00 night shifts)
+export const isWithinWorkHours = (policy: WorkPolicy, now: Date = new Date()) => {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const start = policy.workHoursStartMinutes;
+  const end = policy.workHoursEndMinutes;
+  if (start === end) return true;
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+// Minutes until the next background check. Consecutive failures back off exponentially.
+export const getNextPollDelayMinutes = (
+  outcome: PollOutcome,
+  consecutiveFailures: number,
+  policy: WorkPolicy,
+  now: Date = new Date()
+): number => {
+  switch (outcome) {
+    case "clocked-in":
+      return POLL_INTERVALS.clockedIn;
+    case "signed-out":
+      return POLL_INTERVALS.signedOut;
+    case "offline":
+      return POLL_INTERVALS.offline;
+    case "error":
+      return Math.min(
+        POLL_INTERVALS.maxBackoff,
+        POLL_INTERVALS.clockedIn * 2 ** Math.max(1, consecutiveFailures)
+      );
+    case "clocked-out":
+      return isWithinWorkHours(policy, now)
+        ? POLL_INTERVALS.workingHours
+        : POLL_INTERVALS.offHours;
+  }
+};
@@ -0,0 +1,354 @@
+import { browser } from "wxt/browser";
+import { subDays } from "date-fns";
+import type {
+  BadgeMode,
+  RemoteSettingMeta,
+  SettingsBackup,
+  SettingsSyncConflict,
+  SettingsSyncStatus,
+  SettingSyncMeta,
+} from "./types";
+import { BADGE_MODE_STORAGE_KEY } from "./badge";
+import { WORK_POLICY_STORAGE_KEY, normalizeWorkPolicy } from "./policy";
+import { NOTIFICATION_RULES_STORAGE_KEY, normalizeNotificationRules } from "./rules";
+import { DAY_PLANS_STORAGE_KEY, normalizeDayPlans } from "./plans";
+import { getDayKey, getHalfDayKey } from "./period";
+import {
+  TOKEN_EXPIRY_WARNING_STORAGE_KEY,
+  normalizeTokenExpiryWarning,
+} from "./token";
+
+export const SETTINGS_SCHEMA_VERSION = 1;
+
+// Local-only bookkeeping, never part of a backup or synced
+export const SETTINGS_SYNC_ENABLED_KEY = "settings_sync_enabled";
+export const SETTINGS_SYNC_STATUS_KEY = "settings_sync_status";
+// Keys organisation policy pins on this device (kept by applyManagedSettings); they stay out of sync
+export const MANAGED_SETTING_KEYS_KEY = "managed_setting_keys";
+const SETTINGS_LOCAL_META_KEY = "settings_meta";
+// Lives in storage.sync next to the settings themselves
+const SETTINGS_REMOTE_META_KEY = "settings_meta";
+
+const HALF_DAY_KEY_PREFIX = getHalfDayKey("");
+const MAX_RECORDED_CONFLICTS = 10;
+
+const normalizeBoolean = (value: unknown) =>
+  typeof value === "boolean" ? value : undefined;
+
+// Everything that is a user preference. The token, caches and attendance data are deliberately absent.
+// Only the unprefixed (default profile) keys qualify; other profiles' ids are local to this device.
+const SETTING_NORMALIZERS: Record<string, (value: unknown) => unknown> = {
+  keka_domain: (value) =>
+    typeof value === "string" && value.trim() ? value.trim() : undefined,
+  notifications_enabled: normalizeBoolean,
+  web_punch_enabled: normalizeBoolean,
+  [BADGE_MODE_STORAGE_KEY]: (value) =>
+    (["remaining", "worked", "off"] as BadgeMode[]).includes(value as BadgeMode)
+      ? value
+      : undefined,
+  [WORK_POLICY_STORAGE_KEY]: normalizeWorkPolicy,
+  [NOTIFICATION_RULES_STORAGE_KEY]: normalizeNotificationRules,
+  [DAY_PLANS_STORAGE_KEY]: normalizeDayPlans,
+  [TOKEN_EXPIRY_WARNING_STORAGE_KEY]: normalizeTokenExpiryWarning,
+};
+
+export const SETTING_LABELS: Record<string, string> = {
+  keka_domain: "Keka domain",
+  notifications_enabled: "Notifications",
+  web_punch_enabled: "Punch from popup",
+  [BADGE_MODE_STORAGE_KEY]: "Toolbar badge",
+  [WORK_POLICY_STORAGE_KEY]: "Work policy",
+  [NOTIFICATION_RULES_STORAGE_KEY]: "Notification rules",
+  [DAY_PLANS_STORAGE_KEY]: "Day plans",
+  [TOKEN_EXPIRY_WARNING_STORAGE_KEY]: "Session expiry warning",
+};
+
+// Half day overrides are per day; only the current shift day onwards is worth carrying over
+const isCurrentHalfDayKey = (key: string) =>
+  key.startsWith(HALF_DAY_KEY_PREFIX) &&
+  key.slice(HALF_DAY_KEY_PREFIX.length) >= getDayKey(subDays(new Date(), 1));
+
+export const isSettingKey = (key: string) =>
+  key in SETTING_NORMALIZERS || isCurrentHalfDayKey(key);
+
+export const getSettingLabel = (key: string) =>
+  key.startsWith(HALF_DAY_KEY_PREFIX)
+    ? `Half day (${key.slice(HALF_DAY_KEY_PREFIX.length)})`
+    : SETTING_LABELS[key] ?? key;
+
+// undefined means "not set"; the policy/rules normalizers would otherwise turn that into defaults
+const normalizeSettingValue = (key: string, value: unknown) => {
+  if (value === undefined || value === null) return undefined;
+  return key in SETTING_NORMALIZERS
+    ? SETTING_NORMALIZERS[key](value)
+    : normalizeBoolean(value);
+};
+
+const pickSettings = (values: Record<string, unknown>) => {
+  const settings: Record<string, unknown> = {};
+  Object.entries(values).forEach(([key, value]) => {
+    if (!isSettingKey(key)) return;
+    const normalized = normalizeSettingValue(key, value);
+    if (normalized !== undefined) settings[key] = normalized;
+  });
+  return settings;
+};
+
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const toManagedKeys = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((key) => typeof key === "string") : [];
+
+export const createSettingsBackup = async (): Promise<SettingsBackup> => ({
+  app: "kivo",
+  schemaVersion: SETTINGS_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  settings: pickSettings(await browser.storage.local.get(null)),
+});
+
+// Validates a backup file and writes its settings locally; returns the keys that were applied
+export const restoreSettingsBackup = async (
+  backup: unknown
+): Promise<string[]> => {
+  const file = backup as Partial<SettingsBackup> | null;
+  if (!file || typeof file !== "object" || file.app !== "kivo") {
+    throw new Error("This file is not a Kivo settings backup.");
+  }
+  if (
+    typeof file.schemaVersion !== "number" ||
+    file.schemaVersion > SETTINGS_SCHEMA_VERSION
+  ) {
+    throw new Error("This backup was made by a newer version of Kivo.");
+  }
+  if (!file.settings || typeof file.settings !== "object") {
+    throw new Error("The backup has no settings.");
+  }
+
+  const settings = pickSettings(file.settings);
+  await browser.storage.local.set(settings);
+  return Object.keys(settings);
+};
+
+export const getSettingsSyncStatus = async (): Promise<SettingsSyncStatus> => {
+  const { [SETTINGS_SYNC_STATUS_KEY]: status } = await browser.storage.local.get(
+    SETTINGS_SYNC_STATUS_KEY
+  );
+  return {
+    lastSyncedAt: null,
+    conflicts: [],
+    error: null,
+    ...((status as Partial<SettingsSyncStatus> | undefined) ?? {}),
+  };
+};
+
+const saveSettingsSyncStatus = async (
+  update: Partial<SettingsSyncStatus>,
+  newConflicts: SettingsSyncConflict[] = []
+) => {
+  const status = await getSettingsSyncStatus();
+  await browser.storage.local.set({
+    [SETTINGS_SYNC_STATUS_KEY]: {
+      ...status,
+      ...update,
+      conflicts: [...newConflicts, ...status.conflicts].slice(
+        0,
+        MAX_RECORDED_CONFLICTS
+      ),
+    },
+  });
+};
+
+export const isSettingsSyncEnabled = async (): Promise<boolean> => {
+  const { [SETTINGS_SYNC_ENABLED_KEY]: enabled } =
+    await browser.storage.local.get(SETTINGS_SYNC_ENABLED_KEY);
+  return enabled === true;
+};
+
+// Whether another device has already put settings into sync (used by Setup to offer a restore)
+export const hasSyncedSettings = async (): Promise<boolean> => {
+  const values = await browser.storage.sync.get(null);
+  return Object.keys(values).some(isSettingKey);
+};
+
+// Merges local and synced settings key by key.
+// A side "changed" when it moved past the version both last agreed on; if both did, the newer edit wins.
+export const reconcileSettingsSync = async (
+  onlyKeys?: string[]
+): Promise<void> => {
+  try {
+    const [localValues, syncValues] = await Promise.all([
+      browser.storage.local.get(null),
+      browser.storage.sync.get(null),
+    ]);
+    const localMeta = {
+      ...((localValues[SETTINGS_LOCAL_META_KEY] as
+        | Record<string, SettingSyncMeta>
+        | undefined) ?? {}),
+    };
+    const remoteMeta = {
+      ...((syncValues[SETTINGS_REMOTE_META_KEY] as
+        | Record<string, RemoteSettingMeta>
+        | undefined) ?? {}),
+    };
+
+    const managedKeys = toManagedKeys(localValues[MANAGED_SETTING_KEYS_KEY]);
+    const keys =
+      onlyKeys ??
+      Array.from(
+        new Set([
+          ...Object.keys(localValues),
+          ...Object.keys(syncValues),
+          ...Object.keys(remoteMeta),
+        ])
+      );
+
+    const now = Date.now();
+    const localSet: Record<string, unknown> = {};
+    const localRemove: string[] = [];
+    const syncSet: Record<string, unknown> = {};
+    const syncRemove: string[] = [];
+    const conflicts: SettingsSyncConflict[] = [];
+
+    // One device's policy must not reach the user's other browsers (or be overwritten from them)
+    const syncedKeys = keys.filter(
+      (key) => isSettingKey(key) && !managedKeys.includes(key)
+    );
+    syncedKeys.forEach((key) => {
+      const localValue = normalizeSettingValue(key, localValues[key]);
+      const remoteValue = normalizeSettingValue(key, syncValues[key]);
+      const local = localMeta[key];
+      const remote = remoteMeta[key];
+
+      const localChanged =
+        local?.syncedAt === undefined
+          ? localValue !== undefined
+          : local.updatedAt > local.syncedAt;
+      const remoteChanged = !!remote && remote.updatedAt !== local?.syncedAt;
+
+      const keepLocal = () => {
+        const updatedAt = local?.updatedAt || now;
+        if (localValue === undefined) {
+          syncRemove.push(key);
+          remoteMeta[key] = { updatedAt, deleted: true };
+        } else {
+          syncSet[key] = localValue;
+          remoteMeta[key] = { updatedAt };
+        }
+        localMeta[key] = { updatedAt, syncedAt: updatedAt };
+      };
+
+      const keepRemote = () => {
+        if (remoteValue === undefined) {
+          localRemove.push(key);
+        } else {
+          localSet[key] = remoteValue;
+        }
+        localMeta[key] = {
+          updatedAt: remote.updatedAt,
+          syncedAt: remote.updatedAt,
+        };
+      };
+
+      if (!remote) {
+        if (localValue !== undefined) keepLocal();
+        return;
+      }
+
+      if (isSameValue(localValue, remoteValue)) {
+        localMeta[key] = {
+          updatedAt: remote.updatedAt,
+          syncedAt: remote.updatedAt,
+        };
+        return;
+      }
+
+      if (localChanged && remoteChanged) {
+        const kept =
+          (local?.updatedAt ?? 0) > remote.updatedAt ? "local" : "remote";
+        conflicts.push({ key, kept, resolvedAt: now });
+        if (kept === "local") keepLocal();
+        else keepRemote();
+      } else if (localChanged) {
+        keepLocal();
+      } else {
+        keepRemote();
+      }
+    });
+
+    // Half day overrides for past days are dead weight in the sync quota
+    Object.keys(remoteMeta).forEach((key) => {
+      if (key.startsWith(HALF_DAY_KEY_PREFIX) && !isCurrentHalfDayKey(key)) {
+        delete remoteMeta[key];
+        syncRemove.push(key);
+      }
+    });
+    Object.keys(localMeta).forEach((key) => {
+      if (key.startsWith(HALF_DAY_KEY_PREFIX) && !isCurrentHalfDayKey(key)) {
+        delete localMeta[key];
+      }
+    });
+
+    // Bookkeeping is written before the values so the local change listener sees them as synced
+    await browser.storage.local.set({ [SETTINGS_LOCAL_META_KEY]: localMeta });
+    if (localRemove.length) await browser.storage.local.remove(localRemove);
+    if (Object.keys(localSet).length) await browser.storage.local.set(localSet);
+    if (syncRemove.length) await browser.storage.sync.remove(syncRemove);
+    await browser.storage.sync.set({
+      ...syncSet,
+      [SETTINGS_REMOTE_META_KEY]: remoteMeta,
+    });
+
+    await saveSettingsSyncStatus({ lastSyncedAt: now, error: null }, conflicts);
+  } catch (error) {
+    console.error("Settings sync failed:", error);
+    await saveSettingsSyncStatus({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// Stamps settings edited on this device and pushes them when sync is on.
+// Values that already match sync were written by reconcileSettingsSync and are left alone,
+// as are values organisation policy wrote.
+export const recordSettingChanges = async (
+  changes: Record<string, { newValue?: unknown }>
+): Promise<void> => {
+  const { [MANAGED_SETTING_KEYS_KEY]: storedManagedKeys } =
+    await browser.storage.local.get(MANAGED_SETTING_KEYS_KEY);
+  const managedKeys = toManagedKeys(storedManagedKeys);
+  const keys = Object.keys(changes).filter(
+    (key) => isSettingKey(key) && !managedKeys.includes(key)
+  );
+  if (keys.length === 0) return;
+
+  const enabled = await isSettingsSyncEnabled();
+  const syncValues = enabled ? await browser.storage.sync.get(keys) : {};
+  const edited = keys.filter(
+    (key) =>
+      !enabled ||
+      !isSameValue(
+        normalizeSettingValue(key, changes[key].newValue),
+        normalizeSettingValue(key, syncValues[key])
+      )
+  );
+  if (edited.length === 0) return;
+
+  const { [SETTINGS_LOCAL_META_KEY]: storedMeta } =
+    await browser.storage.local.get(SETTINGS_LOCAL_META_KEY);
+  const localMeta = {
+    ...((storedMeta as Record<string, SettingSyncMeta> | undefined) ?? {}),
+  };
+  const now = Date.now();
+  edited.forEach((key) => {
+    localMeta[key] = { ...localMeta[key], updatedAt: now };
+  });
+  await browser.storage.local.set({ [SETTINGS_LOCAL_META_KEY]: localMeta });
+
+  if (enabled) await reconcileSettingsSync(edited);
+};
+
+export const setSettingsSyncEnabled = async (enabled: boolean) => {
+  await browser.storage.local.set({ [SETTINGS_SYNC_ENABLED_KEY]: enabled });
+  if (enabled) await reconcileSettingsSync();
+};
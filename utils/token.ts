@@ -0,0 +1,48 @@
+import { resolveProfileStorage } from "./profiles";
+
+export const TOKEN_EXPIRY_WARNING_STORAGE_KEY = "token_expiry_warning_minutes";
+export const DEFAULT_TOKEN_EXPIRY_WARNING_MINUTES = 30;
+// 0 turns the warning off
+export const TOKEN_EXPIRY_WARNING_OPTIONS = [0, 15, 30, 60, 120];
+
+export const normalizeTokenExpiryWarning = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? Math.min(Math.round(value), 24 * 60)
+    : DEFAULT_TOKEN_EXPIRY_WARNING_MINUTES;
+
+// Sessions expire per Keka account, so each profile has its own warning
+export const getTokenExpiryWarningMinutes = async (
+  profileId?: string
+): Promise<number> => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  const result = await profileStorage.get(TOKEN_EXPIRY_WARNING_STORAGE_KEY);
+  return normalizeTokenExpiryWarning(result[TOKEN_EXPIRY_WARNING_STORAGE_KEY]);
+};
+
+export const saveTokenExpiryWarningMinutes = async (
+  minutes: number,
+  profileId?: string
+) => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  await profileStorage.set({
+    [TOKEN_EXPIRY_WARNING_STORAGE_KEY]: normalizeTokenExpiryWarning(minutes),
+  });
+};
+
+// Epoch ms from the JWT `exp` claim. The signature isn't checked; Keka does that on every request.
+export const decodeTokenExpiry = (token: string | null | undefined): number | null => {
+  const payload = token?.split(".")[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+    const { exp } = JSON.parse(atob(padded));
+    return typeof exp === "number" && Number.isFinite(exp) ? exp * 1000 : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Whole minutes left before the token lapses; negative once it has
+export const getTokenMinutesLeft = (expiresAt: number, now: number = Date.now()) =>
+  Math.floor((expiresAt - now) / 60000);
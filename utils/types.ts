@@ -3,6 +3,8 @@
 export interface LeaveDetail {
   leaveTypeName: string;
   leaveDayStatus: number;
+  // Approval state of the leave request (see LEAVE_REQUEST_STATUS); older responses leave it out
+  leaveStatus?: number;
   startTime?: string;
   endTime?: string;
 }
@@ -32,11 +34,222 @@ export interface Metrics {
   overtimeMinutes: number;
 }
 
+export interface WorkPolicy {
+  dailyTargetMinutes: number;
+  halfDayTargetMinutes: number;
+  dailyMaxAcceptableMinutes: number;
+  halfDayMaxAcceptableMinutes: number;
+  earlyLeaveMinutes: number;
+  halfDayEarlyLeaveMinutes: number;
+  longSessionAlertMinutes: number;
+  // Minutes after local midnight at which a new shift day begins (0 = calendar day)
+  shiftDayStartMinutes: number;
+  // In/Out gaps longer than this are treated as a missed punch rather than a session
+  maxSessionMinutes: number;
+  // Local time-of-day window (minutes after midnight) in which attendance is polled more often
+  workHoursStartMinutes: number;
+  workHoursEndMinutes: number;
+}
+
+// Result of a background check, used to pick the next polling interval
+export type PollOutcome = "clocked-in" | "clocked-out" | "signed-out" | "offline" | "error";
+
+// Targets for a single day, resolved from the work policy
+export interface DayTarget {
+  targetMinutes: number;
+  maxAcceptableMinutes: number;
+  earlyLeaveMinutes: number;
+  isHalfDay: boolean;
+}
+
+export type DayTargetSource = "default" | "leave" | "manual";
+
+// Day target together with where it came from, for display in Settings/Today
+export interface ResolvedDayTarget extends DayTarget {
+  source: DayTargetSource;
+  sourceDetail: string | null;
+}
+
+export type DayPlanKind = "half-day" | "leave" | "custom";
+
+// Locally planned future day, not yet applied in Keka
+export interface DayPlan {
+  kind: DayPlanKind;
+  targetMinutes?: number;
+}
+
+// Keyed by yyyy-MM-dd
+export type DayPlans = Record<string, DayPlan>;
+
 export interface LeaveTimeInfo {
   normalLeaveTime: string;
   earlyLeaveTime: string;
 }
 
+// Minute values a notification rule can be triggered on (see utils/rules.ts)
+export type RuleMetric =
+  | "worked"
+  | "remaining"
+  | "overtime"
+  | "overAverage"
+  | "overLongSession"
+  | "timeOfDay";
+
+export interface NotificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: RuleMetric;
+  // Inclusive bounds on the metric value in minutes; null means unbounded
+  min: number | null;
+  max: number | null;
+  requireClockedIn: boolean;
+  // null fires once per shift day; otherwise again every time the metric grows by this many minutes
+  repeatEveryMinutes: number | null;
+  title: string;
+  // Supports placeholders such as {worked}, {remaining} or {leaveTime}
+  message: string;
+}
+
+// Everything a rule is evaluated and rendered against
+export interface RuleContext {
+  workedMinutes: number;
+  targetMinutes: number;
+  isHalfDay: boolean;
+  isClockedIn: boolean;
+  hoursNeededPerDay: number | null;
+  leaveTimeInfo: LeaveTimeInfo | null;
+  workPolicy: WorkPolicy;
+  now: Date;
+}
+
+// What the toolbar badge shows; "off" clears it
+export type BadgeMode = "remaining" | "worked" | "off";
+
+// Buttons a background notification can carry (Chrome shows at most two)
+export type NotificationAction = "snooze" | "open-keka" | "half-day";
+
+// Portable file produced by Settings > Backup & Sync
+export interface SettingsBackup {
+  app: "kivo";
+  schemaVersion: number;
+  exportedAt: string;
+  settings: Record<string, unknown>;
+}
+
+// A Keka account (tenant) the extension tracks. The default profile owns the original unprefixed keys.
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+// storage.local scoped to one profile; keys are passed and returned unprefixed
+export interface ProfileStorage {
+  profileId: string;
+  key: (key: string) => string;
+  get: (keys: string | string[]) => Promise<Record<string, unknown>>;
+  set: (values: Record<string, unknown>) => Promise<void>;
+  remove: (keys: string | string[]) => Promise<void>;
+}
+
+// Defaults an organisation pushes through the browser's managed storage policy.
+// null / missing fields are left to the user.
+export interface ManagedSettings {
+  kekaDomain: string | null;
+  workPolicy: Partial<WorkPolicy>;
+  notificationsEnabled: boolean | null;
+  badgeMode: BadgeMode | null;
+  notificationRules: NotificationRule[] | null;
+  features: ManagedFeatures;
+}
+
+// Features an organisation can switch off; everything is allowed by default
+export interface ManagedFeatures {
+  webPunch: boolean;
+  settingsSync: boolean;
+  export: boolean;
+}
+
+// Per-setting bookkeeping: when it last changed and which version both sides last agreed on
+export interface SettingSyncMeta {
+  updatedAt: number;
+  syncedAt?: number;
+}
+
+export interface RemoteSettingMeta {
+  updatedAt: number;
+  // Removed on some device (e.g. a cleared half day override)
+  deleted?: boolean;
+}
+
+export interface SettingsSyncConflict {
+  key: string;
+  kept: "local" | "remote";
+  resolvedAt: number;
+}
+
+export interface SettingsSyncStatus {
+  lastSyncedAt: number | null;
+  conflicts: SettingsSyncConflict[];
+  error: string | null;
+}
+
+// What the background last computed for the profile shown in the popup
+export interface BackgroundStatus {
+  profileId: string;
+  signedIn: boolean;
+  tokenExpiresAt: number | null;
+  metrics: Metrics | null;
+  totalWorkedMinutes: number;
+  isClockedIn: boolean;
+  leaveTimeInfo: LeaveTimeInfo | null;
+  attendanceData: AttendanceData[];
+  shiftDay: string | null;
+  halfDayOverride: boolean | null;
+  lastUpdated: number | null;
+  pollFailures: number;
+  responseFormatIssue: ResponseFormatIssue | null;
+}
+
+// Request payloads, keyed by message type
+export interface MessageRequests {
+  // Run the background check now
+  FORCE_CHECK: {};
+  // Sent by the content script when Keka stores a new token
+  TOKEN_CAPTURED: { token: string };
+  GET_STATUS: {};
+  // null clears the override; day defaults to the shift day being tracked
+  SET_HALF_DAY: { value: boolean | null; day?: string };
+  // Drop cached holidays/leave and fetch everything again
+  REFRESH_CACHES: {};
+}
+
+export interface MessageResponses {
+  FORCE_CHECK: null;
+  TOKEN_CAPTURED: null;
+  GET_STATUS: BackgroundStatus;
+  SET_HALF_DAY: null;
+  REFRESH_CACHES: null;
+}
+
+export type MessageType = keyof MessageRequests;
+
+// Discriminated on `type`; `version` lets a popup and background from different builds notice each other
+export type KivoMessage = {
+  [T in MessageType]: { version: number; type: T } & MessageRequests[T];
+}[MessageType];
+
+export type MessageErrorCode = "unsupported-version" | "failed";
+
+export interface MessageError {
+  code: MessageErrorCode;
+  message: string;
+}
+
+export type MessageResponse<T extends MessageType> =
+  | { ok: true; data: MessageResponses[T] }
+  | { ok: false; error: MessageError };
+
 export interface NotificationStates {
   completionNotifiedToday: boolean;
   overtimeNotifiedToday: boolean;
@@ -57,6 +270,7 @@ export interface NotificationServiceProps {
   leaveTimeInfo: LeaveTimeInfo | null;
   isClockedIn: boolean;
   isHalfDay: boolean;
+  workPolicy: WorkPolicy;
   totalWorkedMinutes: number;
   isHalfDayLoaded: boolean;
   attendanceData: AttendanceData[];
@@ -70,6 +284,27 @@ export interface NotificationServiceProps {
   >;
 }
 
+// A stitched In/Out session, possibly spanning midnight, attributed to the shift day it started in
+export interface ShiftSession {
+  startEntry: TimeEntry;
+  endEntry: TimeEntry | null;
+  durationMinutes: number;
+  shiftDay: string;
+}
+
+export type PunchAnomalyType =
+  | "double-in"
+  | "orphan-out"
+  | "missing-out"
+  | "zero-length";
+
+export interface PunchAnomaly {
+  type: PunchAnomalyType;
+  date: string;
+  timestamp: string;
+  message: string;
+}
+
 export interface TimePair {
   startTime: string;
   endTime: string;
@@ -113,6 +348,21 @@ export interface MonthlyStats {
   remainingWorkingDaysCount: number;
   averageHours: number | null;
   hoursNeededPerDay: number | null;
+  // Leave taken per yyyy-MM-dd, in days (0.5 for a half day)
+  leaveDurations: Record<string, number>;
+}
+
+// One cell of the Monthly tab's calendar heatmap
+export interface MonthlyCalendarDay {
+  date: string;
+  workedMinutes: number;
+  // Same bands as the Total Worked card; null when there's nothing to colour
+  status: Metrics["totalWorkedStatus"] | null;
+  isWeekend: boolean;
+  isHoliday: boolean;
+  leaveDays: number;
+  isToday: boolean;
+  isFuture: boolean;
 }
 
 export interface WeeklyStats {
@@ -126,6 +376,47 @@ export interface WeeklyStats {
   weeklyTarget: number;
   totalWorked: number;
   remaining: number;
+  days: WeeklyDayStats[];
+}
+
+// One row of the Weekly tab's day-by-day breakdown (hours)
+export interface WeeklyDayStats {
+  date: string;
+  workedHours: number;
+  // After holiday, leave, half day and planned deductions
+  targetHours: number;
+  isWeekend: boolean;
+  isHoliday: boolean;
+  isLeave: boolean;
+  isPlanned: boolean;
+  isToday: boolean;
+  isFuture: boolean;
+}
+
+// Why a Keka request failed, so callers can react to each case (see utils/errors.ts)
+export type ApiError =
+  | { kind: "unauthorized"; status: number }
+  | { kind: "offline" }
+  // status is null when Keka didn't answer at all (network error or timeout)
+  | { kind: "server"; status: number | null }
+  // Any other 4xx: the request itself was rejected, so repeating it won't help
+  | { kind: "client"; status: number }
+  | { kind: "rate-limited"; retryAfterMs: number | null }
+  // field is null when the body wasn't JSON at all
+  | { kind: "malformed"; field: string | null; detail: string };
+
+export type ApiErrorKind = ApiError["kind"];
+
+// Keka endpoints whose responses are decoded before use (see utils/validation.ts)
+export type KekaEndpoint = "attendance" | "holidays" | "leave" | "range-stats";
+
+// A Keka response that no longer matched the expected shape
+export interface ResponseFormatIssue {
+  endpoint: KekaEndpoint;
+  // Path of the offending field, e.g. data[2].timeEntries[0].punchStatus
+  field: string;
+  detail: string;
+  detectedAt: number;
 }
 
 export interface RangeStatsResponse {
@@ -0,0 +1,293 @@
+import type {
+  AttendanceData,
+  Holiday,
+  HolidayResponse,
+  KekaEndpoint,
+  LeaveDetail,
+  LeaveHistoryEntry,
+  LeaveResponse,
+  RangeStatsResponse,
+  ResponseFormatIssue,
+  TimeEntry,
+} from "./types";
+import { resolveProfileStorage } from "./profiles";
+import { KekaApiError } from "./errors";
+
+export const RESPONSE_FORMAT_ISSUE_STORAGE_KEY = "response_format_issue";
+
+export const KEKA_ENDPOINT_LABELS: Record<KekaEndpoint, string> = {
+  attendance: "attendance summary",
+  holidays: "holidays",
+  leave: "leave summary",
+  "range-stats": "attendance stats",
+};
+
+// Thrown when a Keka response doesn't have the shape the calculations rely on
+export class KekaResponseFormatError extends KekaApiError {
+  constructor(
+    public readonly field: string,
+    public readonly reason: string
+  ) {
+    super(
+      { kind: "malformed", field, detail: reason },
+      `Unexpected Keka response at ${field}: ${reason}`
+    );
+    this.name = "KekaResponseFormatError";
+  }
+}
+
+type Decoder<T> = (value: unknown, path: string) => T;
+
+// Scalars are quoted so the report shows what Keka actually sent
+const describe = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return JSON.stringify(value.slice(0, 40));
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  return typeof value;
+};
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new KekaResponseFormatError(
+    path,
+    `expected ${expected}, got ${describe(value)}`
+  );
+};
+
+const asObject = (value: unknown, path: string): Record<string, unknown> =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : fail(path, "object", value);
+
+const asString = (value: unknown, path: string): string =>
+  typeof value === "string" ? value : fail(path, "string", value);
+
+const asNumber = (value: unknown, path: string): number =>
+  typeof value === "number" && Number.isFinite(value)
+    ? value
+    : fail(path, "number", value);
+
+const asOptional =
+  <T>(decode: Decoder<T>): Decoder<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : decode(value, path);
+
+// Keka leaves empty lists out (or sends null) on days without punches or leave
+const asList =
+  <T>(decode: Decoder<T>): Decoder<T[]> =>
+  (value, path) => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) return fail(path, "array", value);
+    return value.map((item, index) => decode(item, `${path}[${index}]`));
+  };
+
+// Half-filled entries (decoded to null) are dropped, matching how the calculations skip them
+const asSparseList =
+  <T>(decode: Decoder<T | null>): Decoder<T[]> =>
+  (value, path) =>
+    asList(decode)(value, path).filter((item): item is T => item !== null);
+
+const isMissing = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+const asDateString = (value: unknown, path: string): string => {
+  const date = asString(value, path);
+  return Number.isNaN(new Date(date).getTime())
+    ? fail(path, "date string", date)
+    : date;
+};
+
+// Keka can list a punch before it has a timestamp
+const decodeTimeEntry: Decoder<TimeEntry | null> = (value, path) => {
+  const entry = asObject(value, path);
+  if (isMissing(entry.actualTimestamp)) return null;
+  const actualTimestamp = asDateString(
+    entry.actualTimestamp,
+    `${path}.actualTimestamp`
+  );
+  return {
+    actualTimestamp,
+    timestamp:
+      asOptional(asString)(entry.timestamp, `${path}.timestamp`) ??
+      actualTimestamp,
+    // 0 = In, 1 = Out
+    punchStatus: asNumber(entry.punchStatus, `${path}.punchStatus`),
+  };
+};
+
+// Without a day status the leave can't be placed in the day, so it's left out
+const decodeLeaveDetail: Decoder<LeaveDetail | null> = (value, path) => {
+  const detail = asObject(value, path);
+  if (isMissing(detail.leaveDayStatus)) return null;
+  return {
+    leaveTypeName:
+      asOptional(asString)(detail.leaveTypeName, `${path}.leaveTypeName`) ??
+      "",
+    leaveDayStatus: asNumber(detail.leaveDayStatus, `${path}.leaveDayStatus`),
+    leaveStatus: asOptional(asNumber)(detail.leaveStatus, `${path}.leaveStatus`),
+    startTime: asOptional(asString)(detail.startTime, `${path}.startTime`),
+    endTime: asOptional(asString)(detail.endTime, `${path}.endTime`),
+  };
+};
+
+const decodeAttendanceDay: Decoder<AttendanceData> = (value, path) => {
+  const day = asObject(value, path);
+  return {
+    attendanceDate: asDateString(day.attendanceDate, `${path}.attendanceDate`),
+    timeEntries: asSparseList(decodeTimeEntry)(
+      day.timeEntries,
+      `${path}.timeEntries`
+    ),
+    leaveDayStatuses: asList(asNumber)(
+      day.leaveDayStatuses,
+      `${path}.leaveDayStatuses`
+    ),
+    leaveDetails: asSparseList(decodeLeaveDetail)(
+      day.leaveDetails,
+      `${path}.leaveDetails`
+    ),
+    totalEffectiveHours: asOptional(asNumber)(
+      day.totalEffectiveHours,
+      `${path}.totalEffectiveHours`
+    ),
+  };
+};
+
+export const decodeAttendanceSummary = (value: unknown): AttendanceData[] => {
+  const response = asObject(value, "response");
+  if (!Array.isArray(response.data)) {
+    return fail("data", "array", response.data);
+  }
+  return asList(decodeAttendanceDay)(response.data, "data");
+};
+
+const decodeHoliday: Decoder<Holiday> = (value, path) => {
+  const holiday = asObject(value, path);
+  return { ...holiday, date: asDateString(holiday.date, `${path}.date`) };
+};
+
+export const decodeHolidays = (value: unknown): HolidayResponse => {
+  const response = asObject(value, "response");
+  return { data: asList(decodeHoliday)(response.data, "data") };
+};
+
+const decodeLeaveHistoryEntry: Decoder<LeaveHistoryEntry> = (value, path) => {
+  const entry = asObject(value, path);
+  const change = asOptional(asObject)(entry.change, `${path}.change`);
+  return {
+    date: asDateString(entry.date, `${path}.date`),
+    ...(change && {
+      change: { duration: asNumber(change.duration, `${path}.change.duration`) },
+    }),
+  };
+};
+
+export const decodeLeaveSummary = (value: unknown): LeaveResponse => {
+  const data = asObject(asObject(value, "response").data, "data");
+  return {
+    data: {
+      leaveHistory: asList(decodeLeaveHistoryEntry)(
+        data.leaveHistory,
+        "data.leaveHistory"
+      ),
+    },
+  };
+};
+
+// Keka formats durations as "7h 30m", "8h" or "45m"
+const HOURS_MINUTES_PATTERN = /^\s*(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*$/;
+
+const asHoursMinutes = (value: unknown, path: string): string => {
+  const text = asString(value, path);
+  const match = HOURS_MINUTES_PATTERN.exec(text);
+  return match && (match[1] || match[2])
+    ? text
+    : fail(path, 'duration like "7h 30m"', text);
+};
+
+// Decimal hours from a duration already checked by decodeRangeStats
+export const parseHoursMinutes = (value: string): number => {
+  const [, hours, minutes] = HOURS_MINUTES_PATTERN.exec(value) ?? [];
+  return Number(hours || 0) + Number(minutes || 0) / 60;
+};
+
+// Only the fields the Weekly and Monthly tabs read are required
+export const decodeRangeStats = (value: unknown): RangeStatsResponse => {
+  const data = asObject(asObject(value, "response").data, "data");
+  const stats = asObject(data.myStats, "data.myStats");
+  return {
+    data: {
+      fromDate: asOptional(asString)(data.fromDate, "data.fromDate") ?? "",
+      toDate: asOptional(asString)(data.toDate, "data.toDate") ?? "",
+      myStats: {
+        totalEffectiveHours: asNumber(
+          stats.totalEffectiveHours,
+          "data.myStats.totalEffectiveHours"
+        ),
+        workingDays: asNumber(stats.workingDays, "data.myStats.workingDays"),
+        averageHoursPerDay:
+          asOptional(asNumber)(
+            stats.averageHoursPerDay,
+            "data.myStats.averageHoursPerDay"
+          ) ?? 0,
+        averageHoursPerDayInHHMM: asHoursMinutes(
+          stats.averageHoursPerDayInHHMM,
+          "data.myStats.averageHoursPerDayInHHMM"
+        ),
+        totalEffectiveHoursInHHMM:
+          asOptional(asString)(
+            stats.totalEffectiveHoursInHHMM,
+            "data.myStats.totalEffectiveHoursInHHMM"
+          ) ?? "",
+      },
+    },
+  };
+};
+
+// The last mismatch per profile is kept so the popup can explain why numbers are missing.
+// A later response from the same endpoint that decodes cleanly clears it.
+export const recordResponseFormatIssue = async (
+  endpoint: KekaEndpoint,
+  error: KekaResponseFormatError | null,
+  profileId?: string
+): Promise<void> => {
+  const profileStorage = await resolveProfileStorage(profileId);
+  const result = await profileStorage.get(RESPONSE_FORMAT_ISSUE_STORAGE_KEY);
+  const stored = result[RESPONSE_FORMAT_ISSUE_STORAGE_KEY] as
+    | ResponseFormatIssue
+    | undefined;
+
+  if (error) {
+    const issue: ResponseFormatIssue = {
+      endpoint,
+      field: error.field,
+      detail: error.reason,
+      detectedAt: Date.now(),
+    };
+    await profileStorage.set({ [RESPONSE_FORMAT_ISSUE_STORAGE_KEY]: issue });
+  } else if (stored?.endpoint === endpoint) {
+    await profileStorage.remove(RESPONSE_FORMAT_ISSUE_STORAGE_KEY);
+  }
+};
+
+// Decodes a response, keeping the stored format issue for the endpoint up to date
+export const decodeKekaResponse = async <T>(
+  endpoint: KekaEndpoint,
+  value: unknown,
+  decode: (value: unknown) => T,
+  profileId?: string
+): Promise<T> => {
+  try {
+    const decoded = decode(value);
+    await recordResponseFormatIssue(endpoint, null, profileId);
+    return decoded;
+  } catch (error) {
+    if (error instanceof KekaResponseFormatError) {
+      console.error(`Keka ${KEKA_ENDPOINT_LABELS[endpoint]} format changed:`, error.message);
+      await recordResponseFormatIssue(endpoint, error, profileId);
+    }
+    throw error;
+  }
+};
@@ -12,5 +12,9 @@ export default defineConfig({
       "https://*.keka.com/*",
       "http://*.keka.com/*",
     ],
+    // Lets IT pre-configure the extension through browser policy
+    storage: {
+      managed_schema: "managed_schema.json",
+    },
   },
 });